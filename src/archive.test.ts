@@ -0,0 +1,240 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import assert from "node:assert/strict"
+import { type TestContext, test } from "node:test"
+import { deflateRawSync, gzipSync } from "node:zlib"
+import { createArchiveAssetProvider, readArchive } from "./archive"
+import {
+	createTestAssetProvider,
+	createTestServer,
+	listen,
+} from "./test-helpers"
+
+const MTIME = new Date("2025-03-01T12:00:00Z")
+
+const FILES: Record<string, string> = {
+	"index.html": "<html>Home</html>",
+	"js/app.js": "console.log('app')",
+	"js/app.js.gz": "gzipped app",
+}
+
+/**
+ * Build a ustar archive with an optional directory prefix
+ */
+function createTar(files: Record<string, string>, directory = ""): Buffer {
+	const blocks: Buffer[] = []
+	const header = (name: string, size: number, type: string) => {
+		const block = Buffer.alloc(512)
+		block.write(name, 0, 100)
+		block.write("0000644\0", 100)
+		block.write(`${size.toString(8).padStart(11, "0")}\0`, 124)
+		block.write(
+			`${Math.floor(MTIME.getTime() / 1000)
+				.toString(8)
+				.padStart(11, "0")}\0`,
+			136
+		)
+		block.write(type, 156)
+		block.write("ustar\u000000", 257)
+		block.fill(0x20, 148, 156)
+		const sum = block.reduce((total, byte) => total + byte, 0)
+		block.write(`${sum.toString(8).padStart(6, "0")}\0 `, 148)
+		return block
+	}
+
+	if (directory) {
+		blocks.push(header(`${directory}/`, 0, "5"))
+	}
+	for (const [name, content] of Object.entries(files)) {
+		const data = Buffer.from(content)
+		blocks.push(
+			header(directory ? `${directory}/${name}` : name, data.length, "0")
+		)
+		blocks.push(data, Buffer.alloc((512 - (data.length % 512)) % 512))
+	}
+	blocks.push(Buffer.alloc(1024))
+	return Buffer.concat(blocks)
+}
+
+/**
+ * Build a zip archive, deflating files whose name ends in .js
+ */
+function createZip(files: Record<string, string>): Buffer {
+	const locals: Buffer[] = []
+	const centrals: Buffer[] = []
+	let offset = 0
+
+	for (const [name, content] of Object.entries(files)) {
+		const data = Buffer.from(content)
+		const method = name.endsWith(".js") ? 8 : 0
+		const stored = method === 8 ? deflateRawSync(data) : data
+		const nameBytes = Buffer.from(name)
+
+		// Extended timestamp with the modification time
+		const extra = Buffer.alloc(9)
+		extra.writeUInt16LE(0x5455, 0)
+		extra.writeUInt16LE(5, 2)
+		extra.writeUInt8(1, 4)
+		extra.writeUInt32LE(Math.floor(MTIME.getTime() / 1000), 5)
+
+		const local = Buffer.alloc(30)
+		local.writeUInt32LE(0x04034b50, 0)
+		local.writeUInt16LE(method, 8)
+		local.writeUInt32LE(stored.length, 18)
+		local.writeUInt32LE(data.length, 22)
+		local.writeUInt16LE(nameBytes.length, 26)
+		locals.push(local, nameBytes, stored)
+
+		const central = Buffer.alloc(46)
+		central.writeUInt32LE(0x02014b50, 0)
+		central.writeUInt16LE(method, 10)
+		central.writeUInt32LE(stored.length, 20)
+		central.writeUInt32LE(data.length, 24)
+		central.writeUInt16LE(nameBytes.length, 28)
+		central.writeUInt16LE(extra.length, 30)
+		central.writeUInt32LE(offset, 42)
+		centrals.push(central, nameBytes, extra)
+
+		offset += local.length + nameBytes.length + stored.length
+	}
+
+	const centralDirectory = Buffer.concat(centrals)
+	const end = Buffer.alloc(22)
+	end.writeUInt32LE(0x06054b50, 0)
+	end.writeUInt16LE(Object.keys(files).length, 8)
+	end.writeUInt16LE(Object.keys(files).length, 10)
+	end.writeUInt32LE(centralDirectory.length, 12)
+	end.writeUInt32LE(offset, 16)
+	return Buffer.concat([...locals, centralDirectory, end])
+}
+
+function contents(archive: Buffer) {
+	return Object.fromEntries(
+		readArchive(archive).map(file => [file.name, file.read().toString()])
+	)
+}
+
+test("archive reading", async t => {
+	await t.test("reads tar and gzipped tar archives", () => {
+		const tar = createTar(FILES)
+		assert.deepEqual(contents(tar), FILES)
+		assert.deepEqual(contents(gzipSync(tar)), FILES)
+
+		const [file] = readArchive(tar)
+		assert.equal(file?.size, 17)
+		assert.equal(file?.mtime.getTime(), MTIME.getTime())
+	})
+
+	await t.test("reads stored and deflated zip entries", () => {
+		const zip = createZip(FILES)
+		assert.deepEqual(contents(zip), FILES)
+		assert.equal(readArchive(zip)[1]?.mtime.getTime(), MTIME.getTime())
+	})
+
+	await t.test("rejects corrupt archives", () => {
+		const tar = createTar(FILES)
+		tar[0] = 0x41
+		assert.throws(() => readArchive(tar), /bad header checksum/)
+
+		const zip = createZip(FILES).subarray(0, 40)
+		assert.throws(
+			() => readArchive(Buffer.from(zip)),
+			/end of central directory not found/
+		)
+	})
+})
+
+test("archive asset provider", async t => {
+	await t.test("serves entries as keys under root", () => {
+		const provider = createArchiveAssetProvider("client.tgz", {
+			provider: createTestAssetProvider({
+				"client.tgz": gzipSync(createTar(FILES, "dist")),
+				"other.txt": Buffer.from("other"),
+			}),
+			directory: "dist",
+		})
+
+		assert.deepEqual(
+			[...provider.entries.keys()],
+			["client/index.html", "client/js/app.js", "client/js/app.js.gz"]
+		)
+		assert.equal(
+			provider.getAsset("client/index.html", "utf8"),
+			"<html>Home</html>"
+		)
+		assert.equal(provider.getAsset("other.txt", "utf8"), "other")
+		assert.throws(
+			() => provider.getAsset("client/missing.html"),
+			/No matching asset found for client\/missing.html/
+		)
+
+		assert.deepEqual(provider.manifest.assets["client/js/app.js"], {
+			size: 18,
+			hash: `12-${MTIME.getTime().toString(16)}`,
+			mtime: MTIME.getTime(),
+			encodings: {
+				gzip: { size: 11, hash: `b-${MTIME.getTime().toString(16)}` },
+			},
+		})
+	})
+
+	await t.test(
+		"supplies sizes and mtimes to the plugin",
+		async (t: TestContext) => {
+			const fastify = await createTestServer(t, {
+				assetProvider: createArchiveAssetProvider("client.zip", {
+					provider: createTestAssetProvider({ "client.zip": createZip(FILES) }),
+				}),
+			})
+			const address = await listen(fastify)
+
+			const response = await fetch(`${address}/js/app.js`)
+			assert.equal(response.status, 200)
+			assert.equal(
+				response.headers.get("etag"),
+				`"12-${MTIME.getTime().toString(16)}"`
+			)
+			assert.equal(response.headers.get("last-modified"), MTIME.toUTCString())
+			assert.equal(await response.text(), "console.log('app')")
+
+			const index = await fetch(`${address}/`)
+			assert.equal(await index.text(), "<html>Home</html>")
+		}
+	)
+
+	await t.test(
+		"falls through to assets in the bundled manifest",
+		async (t: TestContext) => {
+			const bundledManifest = {
+				version: 1,
+				assets: {
+					"client/robots.txt": { size: 11, hash: "robots" },
+					"client/index.html": { size: 4, hash: "stale" },
+				},
+			}
+			const provider = createArchiveAssetProvider("client.zip", {
+				provider: createTestAssetProvider({
+					"client.zip": createZip(FILES),
+					"client/robots.txt": Buffer.from("Disallow: /"),
+					"sea-static-manifest.json": Buffer.from(
+						JSON.stringify(bundledManifest)
+					),
+				}),
+			})
+			assert.equal(provider.manifest.assets["client/robots.txt"]?.size, 11)
+			assert.equal(provider.manifest.assets["client/index.html"]?.size, 17)
+
+			const fastify = await createTestServer(t, { assetProvider: provider })
+
+			const robots = await fastify.inject("/robots.txt")
+			assert.equal(robots.statusCode, 200)
+			assert.equal(robots.body, "Disallow: /")
+			assert.equal(robots.headers.etag, '"robots"')
+
+			const index = await fastify.inject("/")
+			assert.equal(index.body, "<html>Home</html>")
+		}
+	)
+})
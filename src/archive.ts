@@ -0,0 +1,494 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { gunzipSync, inflateRawSync } from "node:zlib"
+import { PRECOMPRESSED_EXTENSIONS } from "./encoding.js"
+import { type SeaAssetProvider, getSeaModule } from "./fastify-sea-static.js"
+import {
+	type AssetManifest,
+	type AssetManifestEntry,
+	DEFAULT_MANIFEST_KEY,
+	MANIFEST_VERSION,
+	loadManifest,
+} from "./manifest.js"
+
+const TAR_BLOCK_SIZE = 512
+
+const ZIP_LOCAL_HEADER = 0x04034b50
+const ZIP_CENTRAL_HEADER = 0x02014b50
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const ZIP_EXTENDED_TIMESTAMP = 0x5455
+
+/**
+ * A file stored in an archive
+ */
+export interface ArchiveFile {
+	/** Slash separated path inside the archive, without a leading './' */
+	name: string
+	/** Uncompressed size in bytes */
+	size: number
+	/** Modification time from the archive headers */
+	mtime: Date
+	/** Read the file contents, decompressing if needed */
+	read(): Buffer
+}
+
+/**
+ * Options for the archive asset provider
+ */
+export interface ArchiveAssetProviderOptions {
+	/** Asset key prefix the archive entries are served under (default: 'client') */
+	root?: string
+	/** Directory inside the archive to serve (default: the whole archive) */
+	directory?: string
+	/** Provider holding the archive and any other assets (default: node:sea) */
+	provider?: SeaAssetProvider
+	/**
+	 * Key to serve a generated manifest of the entries under, so the plugin
+	 * picks up their sizes and mtimes, or false to disable. A manifest the
+	 * underlying provider holds under the same key is merged into it.
+	 * (default: 'sea-static-manifest.json')
+	 */
+	manifestKey?: string | false
+}
+
+/**
+ * A SeaAssetProvider serving the entries of an archive as individual assets
+ */
+export interface ArchiveAssetProvider extends SeaAssetProvider {
+	/** Indexed archive entries, keyed by asset key */
+	readonly entries: ReadonlyMap<string, ArchiveFile>
+	/**
+	 * Manifest of the entries with sizes and mtimes from the archive, merged
+	 * with the underlying provider's manifest
+	 */
+	readonly manifest: AssetManifest
+}
+
+/**
+ * Create a SeaAssetProvider that serves a whole directory bundled as a single
+ * tar, gzipped tar or zip asset. The archive is indexed once when the
+ * provider is created; keys outside the archive fall through to the
+ * underlying provider.
+ */
+export function createArchiveAssetProvider(
+	archiveKey: string,
+	options: ArchiveAssetProviderOptions = {}
+): ArchiveAssetProvider {
+	const provider = options.provider ?? getSeaModule()
+	const root = (options.root ?? "client").replace(/^\/+|\/+$/g, "")
+	const directory = (options.directory ?? "").replace(/^(\.?\/)+|\/+$/g, "")
+	const manifestKey = options.manifestKey ?? DEFAULT_MANIFEST_KEY
+
+	const raw = provider.getRawAsset
+		? provider.getRawAsset(archiveKey)
+		: (provider.getAsset(archiveKey) as ArrayBuffer)
+
+	const entries = new Map<string, ArchiveFile>()
+	for (const file of readArchive(Buffer.from(raw))) {
+		// Entries escaping the archive can never be requested, so leave them out
+		if (file.name.split("/").includes("..")) {
+			continue
+		}
+		if (directory && !file.name.startsWith(`${directory}/`)) {
+			continue
+		}
+		const relative = directory
+			? file.name.slice(directory.length + 1)
+			: file.name
+		entries.set(`${root}/${relative}`, file)
+	}
+
+	const manifest = createManifest(entries)
+	// Keep the bundled manifest's entries so keys outside the archive still
+	// resolve; archive entries take precedence
+	const bundled = manifestKey
+		? loadBundledManifest(provider, manifestKey)
+		: undefined
+	if (bundled) {
+		manifest.assets = { ...bundled.assets, ...manifest.assets }
+	}
+	const manifestSource = manifestKey ? JSON.stringify(manifest) : undefined
+
+	function readEntry(key: string): Buffer | undefined {
+		if (key === manifestKey && manifestSource !== undefined) {
+			return Buffer.from(manifestSource)
+		}
+		return entries.get(key)?.read()
+	}
+
+	function toArrayBuffer(content: Buffer): ArrayBuffer {
+		return content.buffer.slice(
+			content.byteOffset,
+			content.byteOffset + content.byteLength
+		) as ArrayBuffer
+	}
+
+	return {
+		entries,
+		manifest,
+
+		isSea: () => provider.isSea(),
+
+		getAsset(key: string, encoding?: string): ArrayBuffer | string {
+			const content = readEntry(key)
+			if (!content) {
+				return provider.getAsset(key, encoding)
+			}
+			if (encoding) {
+				return content.toString(encoding as BufferEncoding)
+			}
+			return toArrayBuffer(content)
+		},
+
+		getAssetAsBlob: (key: string, options?: { type: string }): Blob => {
+			const content = readEntry(key)
+			if (!content) {
+				if (provider.getAssetAsBlob) {
+					return provider.getAssetAsBlob(key, options)
+				}
+				return new Blob([provider.getAsset(key) as ArrayBuffer], {
+					type: options?.type,
+				})
+			}
+			return new Blob([toArrayBuffer(content)], { type: options?.type })
+		},
+
+		getRawAsset: (key: string): ArrayBuffer => {
+			const content = readEntry(key)
+			if (!content) {
+				return provider.getRawAsset
+					? provider.getRawAsset(key)
+					: (provider.getAsset(key) as ArrayBuffer)
+			}
+			return toArrayBuffer(content)
+		},
+
+		getAssetKeys: (): string[] => {
+			const keys = new Set(provider.getAssetKeys?.() ?? [])
+			if (manifestKey) {
+				keys.add(manifestKey)
+			}
+			for (const key of entries.keys()) {
+				keys.add(key)
+			}
+			return [...keys]
+		},
+	}
+}
+
+/**
+ * List the files in a tar, gzipped tar or zip archive
+ */
+export function readArchive(archive: Buffer): ArchiveFile[] {
+	// gzip magic number
+	if (archive[0] === 0x1f && archive[1] === 0x8b) {
+		return readTar(gunzipSync(archive))
+	}
+	if (archive.byteLength >= 4 && archive.readUInt32LE(0) === ZIP_LOCAL_HEADER) {
+		return readZip(archive)
+	}
+	return readTar(archive)
+}
+
+/**
+ * Load the underlying provider's manifest, if it has one under the key
+ */
+function loadBundledManifest(
+	provider: SeaAssetProvider,
+	key: string
+): AssetManifest | undefined {
+	try {
+		provider.getAsset(key)
+	} catch {
+		return undefined
+	}
+	return loadManifest(provider, key)
+}
+
+/**
+ * Describe the archive entries in manifest form, recording precompressed
+ * siblings as encodings of the asset they belong to
+ */
+function createManifest(
+	entries: ReadonlyMap<string, ArchiveFile>
+): AssetManifest {
+	const variantExtensions = Object.entries(PRECOMPRESSED_EXTENSIONS)
+	const assets: Record<string, AssetManifestEntry> = {}
+
+	for (const [key, file] of entries) {
+		const isVariant = variantExtensions.some(
+			([, extension]) =>
+				key.endsWith(extension) && entries.has(key.slice(0, -extension.length))
+		)
+		if (isVariant) {
+			continue
+		}
+
+		const entry: AssetManifestEntry = {
+			size: file.size,
+			hash: statTag(file),
+			mtime: file.mtime.getTime(),
+		}
+		for (const [encoding, extension] of variantExtensions) {
+			const variant = entries.get(`${key}${extension}`)
+			if (variant) {
+				entry.encodings ??= {}
+				entry.encodings[encoding] = {
+					size: variant.size,
+					hash: statTag(variant),
+				}
+			}
+		}
+		assets[key] = entry
+	}
+
+	return { version: MANIFEST_VERSION, assets }
+}
+
+/**
+ * Validator built from size and mtime, like @fastify/send's ETags
+ */
+function statTag(file: ArchiveFile): string {
+	return `${file.size.toString(16)}-${file.mtime.getTime().toString(16)}`
+}
+
+/**
+ * Normalize an archive path to a slash separated relative path
+ */
+function normalizeName(name: string): string {
+	return name.replace(/\\/g, "/").replace(/^(\.?\/)+/, "")
+}
+
+/**
+ * Read a NUL terminated string from a tar header field
+ */
+function tarString(block: Buffer, offset: number, length: number): string {
+	const field = block.subarray(offset, offset + length)
+	const end = field.indexOf(0)
+	return field.subarray(0, end === -1 ? length : end).toString("utf8")
+}
+
+/**
+ * Read a numeric tar header field, octal or GNU base-256
+ */
+function tarNumber(block: Buffer, offset: number, length: number): number {
+	const field = block.subarray(offset, offset + length)
+	if (field[0] !== undefined && field[0] & 0x80) {
+		let value = field[0] & 0x7f
+		for (let i = 1; i < length; i++) {
+			value = value * 256 + (field[i] as number)
+		}
+		return value
+	}
+	const text = tarString(block, offset, length).trim()
+	return text ? Number.parseInt(text, 8) : 0
+}
+
+/**
+ * Parse pax extended header records ("<length> <key>=<value>\n")
+ */
+function parsePax(data: Buffer): Record<string, string> {
+	const records: Record<string, string> = {}
+	let offset = 0
+	while (offset < data.byteLength) {
+		const space = data.indexOf(0x20, offset)
+		if (space === -1) {
+			break
+		}
+		const length = Number.parseInt(data.toString("utf8", offset, space), 10)
+		if (!length) {
+			break
+		}
+		const record = data.toString("utf8", space + 1, offset + length - 1)
+		const equals = record.indexOf("=")
+		if (equals !== -1) {
+			records[record.slice(0, equals)] = record.slice(equals + 1)
+		}
+		offset += length
+	}
+	return records
+}
+
+/**
+ * List the regular files in a tar archive (ustar, GNU and pax)
+ */
+function readTar(archive: Buffer): ArchiveFile[] {
+	const files: ArchiveFile[] = []
+	let pax: Record<string, string> = {}
+	let longName: string | undefined
+	let offset = 0
+
+	while (offset + TAR_BLOCK_SIZE <= archive.byteLength) {
+		const header = archive.subarray(offset, offset + TAR_BLOCK_SIZE)
+
+		// The archive ends with zero filled blocks
+		if (header.every(byte => byte === 0)) {
+			break
+		}
+
+		const checksum = tarNumber(header, 148, 8)
+		let sum = 8 * 0x20
+		for (let i = 0; i < TAR_BLOCK_SIZE; i++) {
+			if (i < 148 || i >= 156) {
+				sum += header[i] as number
+			}
+		}
+		if (sum !== checksum) {
+			throw new Error(`Invalid tar archive: bad header checksum at ${offset}`)
+		}
+
+		const type = String.fromCharCode(header[156] as number)
+		const size = pax.size ? Number(pax.size) : tarNumber(header, 124, 12)
+		const dataStart = offset + TAR_BLOCK_SIZE
+		const data = archive.subarray(dataStart, dataStart + size)
+		offset = dataStart + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE
+
+		if (type === "x") {
+			pax = parsePax(data)
+			continue
+		}
+		if (type === "L") {
+			longName = tarString(data, 0, data.byteLength)
+			continue
+		}
+		if (type === "g") {
+			continue
+		}
+
+		let name = tarString(header, 0, 100)
+		if (tarString(header, 257, 5) === "ustar") {
+			const prefix = tarString(header, 345, 155)
+			if (prefix) {
+				name = `${prefix}/${name}`
+			}
+		}
+		name = pax.path ?? longName ?? name
+		const mtime = pax.mtime ? Number(pax.mtime) : tarNumber(header, 136, 12)
+		pax = {}
+		longName = undefined
+
+		// Regular files only; directories, links and devices are skipped
+		if (type === "0" || type === "\0" || type === "7") {
+			files.push({
+				name: normalizeName(name),
+				size,
+				mtime: new Date(Math.floor(mtime) * 1000),
+				read: () => data,
+			})
+		}
+	}
+
+	return files
+}
+
+/**
+ * Convert an MS-DOS date and time to a Date in local time
+ */
+function dosDateTime(date: number, time: number): Date {
+	return new Date(
+		(date >> 9) + 1980,
+		((date >> 5) & 0x0f) - 1,
+		date & 0x1f,
+		time >> 11,
+		(time >> 5) & 0x3f,
+		(time & 0x1f) * 2
+	)
+}
+
+/**
+ * Find the UTC modification time in a zip extended timestamp extra field
+ */
+function zipExtendedMtime(extra: Buffer): Date | undefined {
+	let offset = 0
+	while (offset + 4 <= extra.byteLength) {
+		const id = extra.readUInt16LE(offset)
+		const length = extra.readUInt16LE(offset + 2)
+		if (
+			id === ZIP_EXTENDED_TIMESTAMP &&
+			length >= 5 &&
+			(extra[offset + 4] as number) & 1
+		) {
+			return new Date(extra.readUInt32LE(offset + 5) * 1000)
+		}
+		offset += 4 + length
+	}
+	return undefined
+}
+
+/**
+ * List the files in a zip archive using stored or deflate compression
+ */
+function readZip(archive: Buffer): ArchiveFile[] {
+	// The end of central directory record is followed by at most a 64 KiB comment
+	let end = -1
+	const searchStart = Math.max(0, archive.byteLength - 22 - 0xffff)
+	for (let i = archive.byteLength - 22; i >= searchStart; i--) {
+		if (archive.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+			end = i
+			break
+		}
+	}
+	if (end === -1) {
+		throw new Error("Invalid zip archive: end of central directory not found")
+	}
+
+	const count = archive.readUInt16LE(end + 10)
+	let offset = archive.readUInt32LE(end + 16)
+	if (count === 0xffff || offset === 0xffffffff) {
+		throw new Error("Invalid zip archive: ZIP64 archives are not supported")
+	}
+
+	const files: ArchiveFile[] = []
+	for (let i = 0; i < count; i++) {
+		if (archive.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) {
+			throw new Error(`Invalid zip archive: bad central header at ${offset}`)
+		}
+
+		const method = archive.readUInt16LE(offset + 10)
+		const time = archive.readUInt16LE(offset + 12)
+		const date = archive.readUInt16LE(offset + 14)
+		const compressedSize = archive.readUInt32LE(offset + 20)
+		const size = archive.readUInt32LE(offset + 24)
+		const nameLength = archive.readUInt16LE(offset + 28)
+		const extraLength = archive.readUInt16LE(offset + 30)
+		const commentLength = archive.readUInt16LE(offset + 32)
+		const localOffset = archive.readUInt32LE(offset + 42)
+		const nameStart = offset + 46
+		const name = archive.toString("utf8", nameStart, nameStart + nameLength)
+		const extra = archive.subarray(
+			nameStart + nameLength,
+			nameStart + nameLength + extraLength
+		)
+		offset = nameStart + nameLength + extraLength + commentLength
+
+		if (name.endsWith("/")) {
+			continue
+		}
+		if (method !== 0 && method !== 8) {
+			throw new Error(
+				`Invalid zip archive: unsupported compression method ${method} for ${name}`
+			)
+		}
+		if (archive.readUInt32LE(localOffset) !== ZIP_LOCAL_HEADER) {
+			throw new Error(`Invalid zip archive: bad local header for ${name}`)
+		}
+
+		const dataStart =
+			localOffset +
+			30 +
+			archive.readUInt16LE(localOffset + 26) +
+			archive.readUInt16LE(localOffset + 28)
+		const data = archive.subarray(dataStart, dataStart + compressedSize)
+
+		files.push({
+			name: normalizeName(name),
+			size,
+			mtime: zipExtendedMtime(extra) ?? dosDateTime(date, time),
+			read: method === 0 ? () => data : () => inflateRawSync(data),
+		})
+	}
+
+	return files
+}
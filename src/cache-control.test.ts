@@ -0,0 +1,221 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import assert from "node:assert/strict"
+import { type TestContext, test } from "node:test"
+import type { FastifyRequest } from "fastify"
+import {
+	formatCacheControl,
+	isFingerprinted,
+	matchCacheControl,
+} from "./cache-control"
+import type { FastifySeaStaticOptions } from "./fastify-sea-static"
+import {
+	createTestAssetProvider,
+	createTestServer,
+	listen,
+} from "./test-helpers"
+
+const TEST_ASSETS: Record<string, string> = {
+	"client/index.html": "<html>Home</html>",
+	"client/assets/app-3f2a9c1b.js": "console.log('app')",
+	"client/assets/logo.svg": "<svg></svg>",
+	"client/api.json": "{}",
+}
+
+const assetProvider = createTestAssetProvider(TEST_ASSETS)
+
+async function createServer(
+	t: TestContext,
+	opts: FastifySeaStaticOptions = {}
+) {
+	const fastify = await createTestServer(t, {
+		assetProvider,
+		...opts,
+	})
+
+	fastify.get("/logo", (_req, reply) => {
+		return reply.sendFile("assets/logo.svg", {
+			cacheControlRules: [
+				{ match: "*.svg", directives: "private, max-age=60" },
+			],
+		})
+	})
+
+	return listen(fastify)
+}
+
+async function cacheControl(url: string) {
+	const response = await fetch(url)
+	await response.text()
+	return response.headers.get("cache-control")
+}
+
+test("formatCacheControl", () => {
+	assert.equal(
+		formatCacheControl({ public: true, maxAge: 31536000, immutable: true }),
+		"public, max-age=31536000, immutable"
+	)
+	assert.equal(
+		formatCacheControl({
+			private: true,
+			maxAge: 0,
+			sMaxAge: 60,
+			staleWhileRevalidate: 30,
+			staleIfError: 86400,
+		}),
+		"private, max-age=0, s-maxage=60, stale-while-revalidate=30, stale-if-error=86400"
+	)
+	assert.equal(formatCacheControl({ noStore: true }), "no-store")
+})
+
+test("matchCacheControl", () => {
+	const request = {} as FastifyRequest
+	const rules = [
+		{ match: /\.json$/, directives: { noStore: true } },
+		{ match: ["index.html", "*.htm"], directives: { noCache: true } },
+		{
+			match: (pathName: string) => pathName.startsWith("assets/"),
+			directives: "public, max-age=600",
+		},
+	]
+
+	assert.equal(matchCacheControl(rules, "api.json", request), "no-store")
+	assert.equal(matchCacheControl(rules, "index.html", request), "no-cache")
+	assert.equal(
+		matchCacheControl(rules, "assets/index.html", request),
+		"no-cache"
+	)
+	assert.equal(
+		matchCacheControl(rules, "assets/app.js", request),
+		"public, max-age=600"
+	)
+	assert.equal(matchCacheControl(rules, "robots.txt", request), undefined)
+})
+
+test("isFingerprinted", () => {
+	for (const pathName of [
+		"main.3f2a9c1b.js",
+		"static/js/main.3f2a9c1b.chunk.js",
+		"assets/index-BQ3x_Ab1.js",
+		"assets/index-B-3xyz_a.js",
+		"assets/chunk-ABCD1234.js",
+		"assets/vendor-react-a1b2c3d4.css",
+		"logo.5d5d9eef2a.svg",
+	]) {
+		assert.equal(isFingerprinted(pathName), true, pathName)
+	}
+
+	for (const pathName of [
+		"index.html",
+		"my-component.js",
+		"bootstrap-reboot.css",
+		"jquery-3.7.1.min.js",
+		"app.abc.js",
+		"report-2025-01-15.html",
+		"index.3f2a9c1b.html",
+		"date-picker-2024.js",
+		"chart-config-v2.js",
+		"logo-dark_mode.svg",
+		"video-1080p60fps.mp4",
+		"button-Primary1.js",
+		"icon-arrow-12.svg",
+	]) {
+		assert.equal(isFingerprinted(pathName), false, pathName)
+	}
+
+	assert.equal(isFingerprinted("assets/app_v42.js", /_v\d+\./), true)
+	assert.equal(isFingerprinted("assets/app.3f2a9c1b.js", /_v\d+\./), false)
+})
+
+test("Cache-Control rules", async t => {
+	await t.test("first matching rule wins", async (t: TestContext) => {
+		const address = await createServer(t, {
+			maxAge: 300,
+			cacheControlRules: [
+				{ match: "index.html", directives: { noCache: true } },
+				{
+					match: "assets/*-*.js",
+					directives: { public: true, maxAge: 31536000, immutable: true },
+				},
+				{ match: "assets/**", directives: { public: true, maxAge: 3600 } },
+			],
+		})
+
+		assert.equal(await cacheControl(`${address}/`), "no-cache")
+		assert.equal(
+			await cacheControl(`${address}/assets/app-3f2a9c1b.js`),
+			"public, max-age=31536000, immutable"
+		)
+		assert.equal(
+			await cacheControl(`${address}/assets/logo.svg`),
+			"public, max-age=3600"
+		)
+		assert.equal(
+			await cacheControl(`${address}/api.json`),
+			"public, max-age=300"
+		)
+	})
+
+	await t.test("can be set per sendFile call", async (t: TestContext) => {
+		const address = await createServer(t, {
+			cacheControlRules: [{ match: "**", directives: { noStore: true } }],
+		})
+
+		assert.equal(await cacheControl(`${address}/logo`), "private, max-age=60")
+		assert.equal(await cacheControl(`${address}/api.json`), "no-store")
+	})
+
+	await t.test(
+		"are skipped when cacheControl is false",
+		async (t: TestContext) => {
+			const address = await createServer(t, {
+				cacheControl: false,
+				cacheControlRules: [{ match: "**", directives: { noStore: true } }],
+			})
+
+			assert.equal(await cacheControl(`${address}/api.json`), null)
+		}
+	)
+})
+
+test("fingerprint caching", async t => {
+	await t.test(
+		"makes hashed assets immutable and revalidates the rest",
+		async (t: TestContext) => {
+			const address = await createServer(t, { fingerprint: true })
+
+			assert.equal(
+				await cacheControl(`${address}/assets/app-3f2a9c1b.js`),
+				"public, max-age=31536000, immutable"
+			)
+			assert.equal(
+				await cacheControl(`${address}/`),
+				"public, max-age=0, must-revalidate"
+			)
+		}
+	)
+
+	await t.test(
+		"uses maxAge, a custom pattern and policy",
+		async (t: TestContext) => {
+			const address = await createServer(t, {
+				maxAge: 86400,
+				fingerprint: { pattern: /^logo\./, cacheControl: "no-cache" },
+				cacheControlRules: [{ match: "*.json", directives: { noStore: true } }],
+			})
+
+			assert.equal(
+				await cacheControl(`${address}/assets/logo.svg`),
+				"public, max-age=86400, immutable"
+			)
+			assert.equal(
+				await cacheControl(`${address}/assets/app-3f2a9c1b.js`),
+				"no-cache"
+			)
+			// Explicit rules take precedence
+			assert.equal(await cacheControl(`${address}/api.json`), "no-store")
+		}
+	)
+})
@@ -0,0 +1,132 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import type { FastifyRequest } from "fastify"
+import { matchesGlob } from "./glob.js"
+
+/**
+ * Content-hashed filenames produced by common bundlers: `name.[8+ hex].ext`
+ * (webpack, including `.chunk` files) and `name-[8 base64url].ext` (Vite,
+ * Rollup, esbuild), where the base64url hash may itself contain `-`. This
+ * is a heuristic: the hash must mix letters and digits and not read as a
+ * word with a trailing number (`button-Primary1.js`), since a false positive
+ * caches a changing file for a year while a miss only costs revalidation.
+ */
+const FINGERPRINT_PATTERNS = [
+	/^.+\.[0-9a-f]{8,}(?:\.chunk)?\.[a-z0-9]+$/i,
+	/^.+-(?=[\w-]*\d)(?=[\w-]*[A-Za-z])(?![A-Z]?[a-z_-]+\d+\.)[\w-]{8}\.[a-z0-9]+$/,
+]
+
+/** HTML entry points keep stable URLs, so they are never fingerprinted */
+const HTML_PATTERN = /\.html?$/i
+
+/**
+ * Cache-Control response directives
+ */
+export interface CacheControlDirectives {
+	/** Allow shared caches to store the response */
+	public?: boolean
+	/** Only allow the browser cache to store the response */
+	private?: boolean
+	/** Revalidate with the server before every reuse */
+	noCache?: boolean
+	/** Never store the response */
+	noStore?: boolean
+	/** Don't reuse the response once stale without revalidating */
+	mustRevalidate?: boolean
+	/** Seconds the response stays fresh */
+	maxAge?: number
+	/** Seconds the response stays fresh in shared caches */
+	sMaxAge?: number
+	/** Seconds a stale response may be served while revalidating */
+	staleWhileRevalidate?: number
+	/** Seconds a stale response may be served when revalidation fails */
+	staleIfError?: number
+	/** The response never changes while fresh */
+	immutable?: boolean
+}
+
+/**
+ * Matches the asset path relative to the root (e.g. 'assets/app.js'):
+ * a glob, a regular expression or a predicate
+ */
+export type CacheControlMatcher =
+	| string
+	| RegExp
+	| ((pathName: string, request: FastifyRequest) => boolean)
+
+/**
+ * Cache-Control for assets matching a pattern
+ */
+export interface CacheControlRule {
+	/** Pattern or patterns the asset must match */
+	match: CacheControlMatcher | CacheControlMatcher[]
+	/** Directives to send, or a raw Cache-Control header value */
+	directives: CacheControlDirectives | string
+}
+
+/**
+ * Format directives as a Cache-Control header value
+ */
+export function formatCacheControl(directives: CacheControlDirectives): string {
+	const parts = [
+		directives.public && "public",
+		directives.private && "private",
+		directives.noCache && "no-cache",
+		directives.noStore && "no-store",
+		directives.mustRevalidate && "must-revalidate",
+		directives.maxAge !== undefined && `max-age=${directives.maxAge}`,
+		directives.sMaxAge !== undefined && `s-maxage=${directives.sMaxAge}`,
+		directives.staleWhileRevalidate !== undefined &&
+			`stale-while-revalidate=${directives.staleWhileRevalidate}`,
+		directives.staleIfError !== undefined &&
+			`stale-if-error=${directives.staleIfError}`,
+		directives.immutable && "immutable",
+	]
+	return parts.filter(Boolean).join(", ")
+}
+
+/**
+ * Find the Cache-Control value of the first rule matching an asset path
+ */
+export function matchCacheControl(
+	rules: readonly CacheControlRule[],
+	pathName: string,
+	request: FastifyRequest
+): string | undefined {
+	for (const rule of rules) {
+		const matchers = Array.isArray(rule.match) ? rule.match : [rule.match]
+		const matched = matchers.some(matcher => {
+			if (typeof matcher === "string") {
+				return matchesGlob(pathName, matcher)
+			}
+			if (matcher instanceof RegExp) {
+				return matcher.test(pathName)
+			}
+			return matcher(pathName, request)
+		})
+
+		if (matched) {
+			return typeof rule.directives === "string"
+				? rule.directives
+				: formatCacheControl(rule.directives)
+		}
+	}
+	return undefined
+}
+
+/**
+ * Check if an asset's filename carries a content hash, using the bundler
+ * patterns above unless a pattern is given
+ */
+export function isFingerprinted(pathName: string, pattern?: RegExp): boolean {
+	const filename = pathName.slice(pathName.lastIndexOf("/") + 1)
+	if (pattern) {
+		return pattern.test(filename)
+	}
+	return (
+		!HTML_PATTERN.test(filename) &&
+		FINGERPRINT_PATTERNS.some(fingerprint => fingerprint.test(filename))
+	)
+}
@@ -0,0 +1,95 @@
+#!/usr/bin/env node
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import path from "node:path"
+import { parseArgs } from "node:util"
+import { checkAssets, generateAssets, writeAssets } from "./generate.js"
+
+const USAGE = `Usage: fastify-sea-static <dir> [options]
+
+Generate sea-config.json assets and an asset manifest from a build directory.
+
+Options:
+  --root <prefix>         Asset key prefix, matching the plugin's root (default: client)
+  --config <file>         sea-config.json to create or update (default: sea-config.json)
+  --manifest <file>       Where to write the manifest (default: next to the config)
+  --manifest-key <key>    Asset key of the manifest (default: sea-static-manifest.json)
+  --include <glob>        Only include matching files (repeatable)
+  --exclude <glob>        Exclude matching files (repeatable)
+  --precompress           Write .br and .gz variants of compressible files
+  --algorithm <name>      Hash algorithm for the manifest (default: sha256)
+  --check                 Exit with an error if the generated files are out of date
+  -h, --help              Show this help
+`
+
+async function main(argv: string[]): Promise<number> {
+	const { values, positionals } = parseArgs({
+		args: argv,
+		allowPositionals: true,
+		options: {
+			root: { type: "string" },
+			config: { type: "string" },
+			manifest: { type: "string" },
+			"manifest-key": { type: "string" },
+			include: { type: "string", multiple: true },
+			exclude: { type: "string", multiple: true },
+			precompress: { type: "boolean" },
+			algorithm: { type: "string" },
+			check: { type: "boolean" },
+			help: { type: "boolean", short: "h" },
+		},
+	})
+
+	const [dir] = positionals
+	if (values.help || !dir) {
+		process.stdout.write(USAGE)
+		return values.help ? 0 : 1
+	}
+
+	const result = await generateAssets({
+		dir,
+		root: values.root,
+		config: values.config,
+		manifestFile: values.manifest,
+		manifestKey: values["manifest-key"],
+		include: values.include,
+		exclude: values.exclude,
+		precompress: values.precompress,
+		algorithm: values.algorithm,
+	})
+	const assetCount = Object.keys(result.manifest.assets).length
+
+	if (values.check) {
+		const stale = await checkAssets(result)
+		if (stale.length > 0) {
+			process.stderr.write(
+				`SEA assets are out of date, run fastify-sea-static without --check:\n${stale
+					.map(file => `  ${path.relative(process.cwd(), file)}`)
+					.join("\n")}\n`
+			)
+			return 1
+		}
+		process.stdout.write(`SEA assets are up to date (${assetCount} assets)\n`)
+		return 0
+	}
+
+	await writeAssets(result)
+	process.stdout.write(
+		`Wrote ${assetCount} assets to ${path.relative(process.cwd(), result.configFile)}\n`
+	)
+	return 0
+}
+
+main(process.argv.slice(2)).then(
+	code => {
+		process.exitCode = code
+	},
+	(err: unknown) => {
+		process.stderr.write(
+			`fastify-sea-static: ${err instanceof Error ? err.message : String(err)}\n`
+		)
+		process.exitCode = 1
+	}
+)
@@ -0,0 +1,162 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import assert from "node:assert/strict"
+import { type TestContext, test } from "node:test"
+import { BufferLruCache } from "./compression"
+import type { FastifySeaStaticOptions } from "./fastify-sea-static"
+import {
+	createTestAssetProvider,
+	createTestServer,
+	listen,
+} from "./test-helpers"
+
+const LARGE_HTML = `<html>${"<p>Compress me</p>".repeat(200)}</html>`
+const SMALL_CSS = "body { color: red; }"
+const IMAGE = Buffer.alloc(4096, 7)
+
+const TEST_ASSETS: Record<string, Buffer> = {
+	"client/index.html": Buffer.from(LARGE_HTML),
+	"client/style.css": Buffer.from(SMALL_CSS),
+	"client/image.png": IMAGE,
+}
+
+const assetProvider = createTestAssetProvider(TEST_ASSETS)
+
+async function createServer(
+	t: TestContext,
+	compress: FastifySeaStaticOptions["compress"]
+) {
+	const fastify = await createTestServer(t, {
+		compress,
+		assetProvider,
+	})
+
+	return listen(fastify)
+}
+
+test("BufferLruCache", async t => {
+	await t.test("evicts least recently used entries", () => {
+		const cache = new BufferLruCache(10)
+		cache.set("a", Buffer.alloc(4))
+		cache.set("b", Buffer.alloc(4))
+
+		// Touch "a" so "b" becomes the eviction candidate
+		assert.ok(cache.get("a"))
+		cache.set("c", Buffer.alloc(4))
+
+		assert.ok(cache.get("a"))
+		assert.equal(cache.get("b"), undefined)
+		assert.ok(cache.get("c"))
+		assert.equal(cache.bytes, 8)
+	})
+
+	await t.test("skips values larger than the budget", () => {
+		const cache = new BufferLruCache(10)
+		cache.set("big", Buffer.alloc(11))
+
+		assert.equal(cache.get("big"), undefined)
+		assert.equal(cache.bytes, 0)
+	})
+})
+
+test("on-the-fly compression", async t => {
+	await t.test("compresses compressible assets", async (t: TestContext) => {
+		const address = await createServer(t, true)
+
+		const brResponse = await fetch(`${address}/index.html`, {
+			headers: { "accept-encoding": "gzip, br" },
+		})
+		assert.equal(brResponse.status, 200)
+		assert.equal(brResponse.headers.get("content-encoding"), "br")
+		assert.equal(brResponse.headers.get("vary"), "accept-encoding")
+		assert.equal(
+			brResponse.headers.get("content-type"),
+			"text/html; charset=utf-8"
+		)
+		assert.equal(await brResponse.text(), LARGE_HTML)
+
+		const gzipResponse = await fetch(`${address}/index.html`, {
+			headers: { "accept-encoding": "gzip" },
+		})
+		assert.equal(gzipResponse.headers.get("content-encoding"), "gzip")
+		assert.equal(await gzipResponse.text(), LARGE_HTML)
+	})
+
+	await t.test("reuses the cached result", async (t: TestContext) => {
+		const address = await createServer(t, true)
+
+		const first = await fetch(`${address}/index.html`, {
+			headers: { "accept-encoding": "br" },
+		})
+		const second = await fetch(`${address}/index.html`, {
+			headers: { "accept-encoding": "br" },
+		})
+		assert.equal(first.headers.get("etag"), second.headers.get("etag"))
+		assert.equal(await first.text(), await second.text())
+	})
+
+	await t.test("skips small and binary assets", async (t: TestContext) => {
+		const address = await createServer(t, true)
+
+		const cssResponse = await fetch(`${address}/style.css`, {
+			headers: { "accept-encoding": "br, gzip" },
+		})
+		assert.equal(cssResponse.headers.get("content-encoding"), null)
+		assert.equal(await cssResponse.text(), SMALL_CSS)
+
+		const imageResponse = await fetch(`${address}/image.png`, {
+			headers: { "accept-encoding": "br, gzip" },
+		})
+		assert.equal(imageResponse.headers.get("content-encoding"), null)
+		assert.equal(imageResponse.headers.get("vary"), null)
+		await imageResponse.arrayBuffer()
+	})
+
+	await t.test("supports custom settings", async (t: TestContext) => {
+		const address = await createServer(t, {
+			encodings: ["gzip"],
+			threshold: 0,
+			filter: contentType => contentType.startsWith("image/"),
+		})
+
+		const imageResponse = await fetch(`${address}/image.png`, {
+			headers: { "accept-encoding": "br, gzip" },
+		})
+		assert.equal(imageResponse.headers.get("content-encoding"), "gzip")
+		assert.deepEqual(Buffer.from(await imageResponse.arrayBuffer()), IMAGE)
+
+		const htmlResponse = await fetch(`${address}/index.html`, {
+			headers: { "accept-encoding": "br, gzip" },
+		})
+		assert.equal(htmlResponse.headers.get("content-encoding"), null)
+		assert.equal(await htmlResponse.text(), LARGE_HTML)
+	})
+
+	await t.test("serves identity when not accepted", async (t: TestContext) => {
+		const address = await createServer(t, true)
+
+		const response = await fetch(`${address}/index.html`, {
+			headers: { "accept-encoding": "identity" },
+		})
+		assert.equal(response.headers.get("content-encoding"), null)
+		assert.equal(response.headers.get("vary"), "accept-encoding")
+		assert.equal(await response.text(), LARGE_HTML)
+	})
+
+	await t.test("keeps an existing Vary header", async (t: TestContext) => {
+		const fastify = await createTestServer(t, { compress: true, assetProvider })
+		fastify.get("/page", (_request, reply) => {
+			reply.header("vary", "cookie")
+			return reply.sendFile("index.html")
+		})
+
+		const response = await fastify.inject({
+			url: "/page",
+			headers: { "accept-encoding": "gzip" },
+		})
+		assert.equal(response.headers["content-encoding"], "gzip")
+		assert.equal(response.headers.vary, "cookie, accept-encoding")
+	})
+})
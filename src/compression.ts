@@ -0,0 +1,90 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { promisify } from "node:util"
+import { constants, brotliCompress, deflate, gzip } from "node:zlib"
+
+/** Content codings supported for on-the-fly compression */
+export type CompressionEncoding = "br" | "gzip" | "deflate"
+
+const brotliCompressAsync = promisify(brotliCompress)
+const gzipAsync = promisify(gzip)
+const deflateAsync = promisify(deflate)
+
+/**
+ * Compress an asset with the given content coding
+ */
+export async function compressAsset(
+	content: Buffer,
+	encoding: CompressionEncoding
+): Promise<Buffer> {
+	switch (encoding) {
+		case "br":
+			return brotliCompressAsync(content, {
+				params: {
+					[constants.BROTLI_PARAM_MODE]: constants.BROTLI_MODE_TEXT,
+					[constants.BROTLI_PARAM_SIZE_HINT]: content.byteLength,
+				},
+			})
+		case "gzip":
+			return gzipAsync(content)
+		case "deflate":
+			return deflateAsync(content)
+	}
+}
+
+/**
+ * A least-recently-used cache bounded by the total byte length of its values
+ */
+export class BufferLruCache {
+	readonly #entries = new Map<string, Buffer>()
+	readonly #maxBytes: number
+	#bytes = 0
+
+	constructor(maxBytes: number) {
+		this.#maxBytes = maxBytes
+	}
+
+	/** Total byte length of the cached values */
+	get bytes(): number {
+		return this.#bytes
+	}
+
+	get(key: string): Buffer | undefined {
+		const value = this.#entries.get(key)
+		if (value) {
+			// Re-insert to mark as most recently used
+			this.#entries.delete(key)
+			this.#entries.set(key, value)
+		}
+		return value
+	}
+
+	set(key: string, value: Buffer): void {
+		// Values that can never fit are not cached at all
+		if (value.byteLength > this.#maxBytes) {
+			return
+		}
+
+		this.delete(key)
+		this.#entries.set(key, value)
+		this.#bytes += value.byteLength
+
+		// Evict least recently used entries until we are back under budget
+		for (const [oldestKey] of this.#entries) {
+			if (this.#bytes <= this.#maxBytes) {
+				break
+			}
+			this.delete(oldestKey)
+		}
+	}
+
+	delete(key: string): void {
+		const value = this.#entries.get(key)
+		if (value) {
+			this.#entries.delete(key)
+			this.#bytes -= value.byteLength
+		}
+	}
+}
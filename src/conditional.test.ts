@@ -0,0 +1,131 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import assert from "node:assert/strict"
+import { type TestContext, test } from "node:test"
+import { evaluatePreconditions, parseEtagList } from "./conditional"
+import {
+	createTestAssetProvider,
+	createTestServer,
+	listen,
+} from "./test-helpers"
+
+const ETAG = '"abc"'
+const LAST_MODIFIED = "Wed, 01 Jan 2025 00:00:00 GMT"
+const EARLIER = "Tue, 31 Dec 2024 00:00:00 GMT"
+const LATER = "Thu, 02 Jan 2025 00:00:00 GMT"
+
+const validators = { etag: ETAG, lastModified: LAST_MODIFIED }
+
+const assetProvider = createTestAssetProvider({
+	"client/test.html": "<html>Test</html>",
+})
+
+test("evaluatePreconditions", async t => {
+	await t.test("parses entity-tag lists", () => {
+		assert.deepEqual(parseEtagList('"a", W/"b","c,d"'), [
+			'"a"',
+			'W/"b"',
+			'"c,d"',
+		])
+	})
+
+	await t.test("If-None-Match uses weak comparison", () => {
+		const check = (ifNoneMatch: string) =>
+			evaluatePreconditions("GET", { "if-none-match": ifNoneMatch }, validators)
+
+		assert.equal(check('"abc"'), 304)
+		assert.equal(check('W/"abc"'), 304)
+		assert.equal(check('"x", "abc"'), 304)
+		assert.equal(check("*"), 304)
+		assert.equal(check('"x", "y"'), undefined)
+		assert.equal(
+			evaluatePreconditions("POST", { "if-none-match": '"abc"' }, validators),
+			412
+		)
+	})
+
+	await t.test("If-Match uses strong comparison", () => {
+		const check = (ifMatch: string) =>
+			evaluatePreconditions("GET", { "if-match": ifMatch }, validators)
+
+		assert.equal(check('"abc"'), undefined)
+		assert.equal(check('"x", "abc"'), undefined)
+		assert.equal(check("*"), undefined)
+		assert.equal(check('W/"abc"'), 412)
+		assert.equal(check('"x"'), 412)
+		assert.equal(
+			evaluatePreconditions(
+				"GET",
+				{ "if-match": '"abc"' },
+				{ etag: 'W/"abc"', lastModified: LAST_MODIFIED }
+			),
+			412
+		)
+	})
+
+	await t.test("evaluates date preconditions", () => {
+		const check = (headers: Record<string, string>) =>
+			evaluatePreconditions("GET", headers, validators)
+
+		assert.equal(check({ "if-modified-since": LAST_MODIFIED }), 304)
+		assert.equal(check({ "if-modified-since": LATER }), 304)
+		assert.equal(check({ "if-modified-since": EARLIER }), undefined)
+		assert.equal(check({ "if-modified-since": "not a date" }), undefined)
+
+		assert.equal(check({ "if-unmodified-since": LAST_MODIFIED }), undefined)
+		assert.equal(check({ "if-unmodified-since": EARLIER }), 412)
+	})
+
+	await t.test("entity-tags take precedence over dates", () => {
+		const check = (headers: Record<string, string>) =>
+			evaluatePreconditions("GET", headers, validators)
+
+		// If-None-Match is evaluated instead of If-Modified-Since
+		assert.equal(
+			check({ "if-none-match": '"x"', "if-modified-since": LATER }),
+			undefined
+		)
+		// If-Match is evaluated instead of If-Unmodified-Since
+		assert.equal(
+			check({ "if-match": '"abc"', "if-unmodified-since": EARLIER }),
+			undefined
+		)
+	})
+
+	await t.test("ignores missing validators", () => {
+		assert.equal(
+			evaluatePreconditions("GET", { "if-modified-since": LATER }, {}),
+			undefined
+		)
+		assert.equal(evaluatePreconditions("GET", { "if-match": '"abc"' }, {}), 412)
+	})
+})
+
+test("conditional requests", async t => {
+	await t.test("responds with 304 and 412", async (t: TestContext) => {
+		const address = await listen(await createTestServer(t, { assetProvider }))
+
+		const initial = await fetch(`${address}/test.html`)
+		const etag = initial.headers.get("etag") ?? ""
+		await initial.text()
+
+		const notModified = await fetch(`${address}/test.html`, {
+			headers: { "if-none-match": `"other", W/${etag}` },
+		})
+		assert.equal(notModified.status, 304)
+		assert.equal(notModified.headers.get("etag"), etag)
+
+		const matched = await fetch(`${address}/test.html`, {
+			headers: { "if-match": etag },
+		})
+		assert.equal(matched.status, 200)
+		await matched.text()
+
+		const failed = await fetch(`${address}/test.html`, {
+			headers: { "if-match": '"other"' },
+		})
+		assert.equal(failed.status, 412)
+	})
+})
@@ -0,0 +1,111 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import type { IncomingHttpHeaders } from "node:http"
+
+/**
+ * Validators of the selected representation
+ */
+export interface Validators {
+	/** The ETag header value, if one is sent */
+	etag?: string
+	/** The Last-Modified header value, if one is sent */
+	lastModified?: string
+}
+
+/**
+ * Evaluate request preconditions in the order defined by RFC 9110 section 13.2.2.
+ * Returns 304 or 412 when the request should be answered without a body,
+ * or undefined when the asset should be sent normally.
+ */
+export function evaluatePreconditions(
+	method: string,
+	headers: IncomingHttpHeaders,
+	validators: Validators
+): 304 | 412 | undefined {
+	const isSafe = method === "GET" || method === "HEAD"
+	const { etag, lastModified } = validators
+	const lastModifiedTime = parseHttpDate(lastModified)
+
+	// Step 1 and 2: If-Match, otherwise If-Unmodified-Since
+	const ifMatch = headers["if-match"]
+	if (ifMatch) {
+		if (!matchesEtag(ifMatch, etag, strongCompare)) {
+			return 412
+		}
+	} else {
+		const ifUnmodifiedSince = parseHttpDate(headers["if-unmodified-since"])
+		if (
+			!Number.isNaN(ifUnmodifiedSince) &&
+			!Number.isNaN(lastModifiedTime) &&
+			lastModifiedTime > ifUnmodifiedSince
+		) {
+			return 412
+		}
+	}
+
+	// Step 3 and 4: If-None-Match, otherwise If-Modified-Since
+	const ifNoneMatch = headers["if-none-match"]
+	if (ifNoneMatch) {
+		if (matchesEtag(ifNoneMatch, etag, weakCompare)) {
+			return isSafe ? 304 : 412
+		}
+	} else if (isSafe) {
+		const ifModifiedSince = parseHttpDate(headers["if-modified-since"])
+		if (
+			!Number.isNaN(ifModifiedSince) &&
+			!Number.isNaN(lastModifiedTime) &&
+			lastModifiedTime <= ifModifiedSince
+		) {
+			return 304
+		}
+	}
+
+	return undefined
+}
+
+/**
+ * Check an If-Match or If-None-Match header against the current ETag
+ */
+function matchesEtag(
+	header: string,
+	etag: string | undefined,
+	compare: (a: string, b: string) => boolean
+): boolean {
+	if (header.trim() === "*") {
+		return true
+	}
+	if (!etag) {
+		return false
+	}
+	return parseEtagList(header).some(candidate => compare(candidate, etag))
+}
+
+/**
+ * Split a comma separated list of entity-tags, respecting quoted commas
+ */
+export function parseEtagList(header: string): string[] {
+	return header.match(/(?:W\/)?"[^"]*"/g) ?? []
+}
+
+/**
+ * Strong comparison: both tags must be strong and identical
+ */
+export function strongCompare(a: string, b: string): boolean {
+	return !a.startsWith("W/") && !b.startsWith("W/") && a === b
+}
+
+/**
+ * Weak comparison: opaque tags must match, ignoring weak prefixes
+ */
+export function weakCompare(a: string, b: string): boolean {
+	return a.replace(/^W\//, "") === b.replace(/^W\//, "")
+}
+
+/**
+ * Parse an HTTP-date, returning NaN when missing or invalid
+ */
+function parseHttpDate(value: string | undefined): number {
+	return value ? Date.parse(value) : Number.NaN
+}
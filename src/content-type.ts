@@ -0,0 +1,36 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import path from "node:path"
+import send from "@fastify/send"
+
+// Cache for MIME types to avoid repeated lookups
+const mimeTypeCache = new Map<string, string>()
+
+/**
+ * Get the content type based on file extension
+ */
+export function getContentType(filepath: string): string {
+	const ext = path.extname(filepath).toLowerCase()
+
+	// Use cached MIME type if available
+	if (mimeTypeCache.has(ext)) {
+		return mimeTypeCache.get(ext) ?? "application/octet-stream"
+	}
+
+	// Try to get MIME type from send library
+	let mimeType = send.mime.getType(ext.substring(1))
+
+	// Add charset=utf-8 for text-based formats
+	if (mimeType && send.isUtf8MimeType(mimeType)) {
+		mimeType += "; charset=utf-8"
+	}
+
+	// Cache the MIME type for future use
+	if (mimeType) {
+		mimeTypeCache.set(ext, mimeType)
+	}
+
+	return mimeType ?? "application/octet-stream"
+}
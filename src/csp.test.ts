@@ -0,0 +1,147 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import assert from "node:assert/strict"
+import { type TestContext, test } from "node:test"
+import {
+	applyNonce,
+	formatPolicy,
+	generateNonce,
+	splitNonceTemplate,
+} from "./csp"
+import type { FastifySeaStaticOptions } from "./fastify-sea-static"
+import { createTestAssetProvider, createTestServer } from "./test-helpers"
+
+const PAGE =
+	'<html><head><style>h1{}</style><script src="/app.js"></script><script nonce="fixed">1</script></head></html>'
+
+const TEST_ASSETS: Record<string, string> = {
+	"client/index.html": PAGE,
+	"client/index.html.gz": "precompressed",
+	"client/app.js": "console.log('<script>')",
+}
+
+const assetProvider = createTestAssetProvider(TEST_ASSETS)
+
+async function createServer(
+	t: TestContext,
+	opts: FastifySeaStaticOptions = {}
+) {
+	const fastify = await createTestServer(t, {
+		cspNonce: true,
+		assetProvider,
+		...opts,
+	})
+	fastify.get("/api/nonce", request => ({ nonce: request.cspNonce }))
+	return fastify
+}
+
+test("splitNonceTemplate and applyNonce", () => {
+	const parts = splitNonceTemplate(PAGE)
+	assert.equal(parts.length, 3)
+	assert.equal(
+		applyNonce(parts, "abc"),
+		'<html><head><style nonce="abc">h1{}</style><script nonce="abc" src="/app.js"></script><script nonce="fixed">1</script></head></html>'
+	)
+	assert.deepEqual(splitNonceTemplate("<p>No scripts</p>"), [
+		"<p>No scripts</p>",
+	])
+	// Custom elements that start with a tag name are left alone
+	assert.deepEqual(
+		splitNonceTemplate("<style-guide><script-loader></script-loader>"),
+		["<style-guide><script-loader></script-loader>"]
+	)
+	assert.equal(
+		applyNonce(splitNonceTemplate("<script/><style>"), "n"),
+		'<script nonce="n"/><style nonce="n">'
+	)
+})
+
+test("generateNonce and formatPolicy", () => {
+	const nonce = generateNonce()
+	assert.equal(Buffer.from(nonce, "base64").length, 16)
+	assert.notEqual(generateNonce(), nonce)
+	assert.equal(
+		formatPolicy("script-src 'nonce-{nonce}'; style-src 'nonce-{nonce}'", "n"),
+		"script-src 'nonce-n'; style-src 'nonce-n'"
+	)
+})
+
+test("cspNonce option", async t => {
+	await t.test("adds a fresh nonce to HTML", async (t: TestContext) => {
+		const fastify = await createServer(t)
+
+		const first = await fastify.inject("/")
+		const second = await fastify.inject("/")
+		const [, nonce] =
+			first.body.match(/<script nonce="([^"]+)" src="\/app.js">/) ?? []
+		assert.ok(nonce)
+		assert.ok(first.body.includes(`<style nonce="${nonce}">`))
+		assert.match(first.body, /<script nonce="fixed">/)
+		assert.notEqual(first.body, second.body)
+
+		assert.equal(
+			first.headers["content-security-policy"],
+			`script-src 'nonce-${nonce}' 'strict-dynamic'; style-src 'self' 'nonce-${nonce}'; object-src 'none'; base-uri 'none'`
+		)
+		assert.equal(
+			first.headers["content-length"],
+			String(Buffer.byteLength(first.body))
+		)
+		assert.equal(first.headers["cache-control"], "no-store")
+		assert.equal(first.headers.etag, undefined)
+		assert.equal(first.headers["last-modified"], undefined)
+	})
+
+	await t.test("leaves other assets alone", async (t: TestContext) => {
+		const fastify = await createServer(t)
+
+		const response = await fastify.inject("/app.js")
+		assert.equal(response.body, TEST_ASSETS["client/app.js"])
+		assert.equal(response.headers["content-security-policy"], undefined)
+		assert.ok(response.headers.etag)
+	})
+
+	await t.test("supports a custom policy", async (t: TestContext) => {
+		const fastify = await createServer(t, {
+			preCompressed: true,
+			cspNonce: {
+				policy: "default-src 'self'; script-src 'nonce-{nonce}'",
+				reportOnly: true,
+			},
+		})
+
+		const response = await fastify.inject({
+			url: "/index.html",
+			headers: { "accept-encoding": "gzip" },
+		})
+		assert.equal(response.headers["content-encoding"], undefined)
+		assert.equal(response.headers["content-security-policy"], undefined)
+		assert.match(
+			response.headers["content-security-policy-report-only"] as string,
+			/^default-src 'self'; script-src 'nonce-[A-Za-z0-9+/=]+'$/
+		)
+	})
+
+	await t.test("never caches the SPA fallback", async (t: TestContext) => {
+		const fastify = await createServer(t, { spa: true })
+
+		const response = await fastify.inject({
+			url: "/dashboard",
+			headers: { accept: "text/html" },
+		})
+		assert.equal(response.statusCode, 200)
+		assert.match(response.body, /<script nonce="[^"]+" src="\/app.js">/)
+		assert.equal(response.headers["cache-control"], "no-store")
+	})
+
+	await t.test("exposes the nonce on the request", async (t: TestContext) => {
+		const fastify = await createServer(t)
+
+		const response = await fastify.inject("/api/nonce")
+		const { nonce } = response.json()
+		assert.equal(typeof nonce, "string")
+		assert.equal(Buffer.from(nonce, "base64").length, 16)
+	})
+})
@@ -0,0 +1,59 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { randomBytes } from "node:crypto"
+
+/**
+ * Default policy: only scripts and styles carrying the nonce may run, and
+ * scripts they load are trusted in turn
+ */
+export const DEFAULT_CSP_POLICY =
+	"script-src 'nonce-{nonce}' 'strict-dynamic'; style-src 'self' 'nonce-{nonce}'; object-src 'none'; base-uri 'none'"
+
+// Opening <script> and <style> tags and their attributes
+const TAG_PATTERN = /<(script|style)(?=[\s>/])([^>]*)>/gi
+
+/**
+ * Generate a random nonce, base64 encoded
+ */
+export function generateNonce(bytes = 16): string {
+	return randomBytes(bytes).toString("base64")
+}
+
+/**
+ * Fill the `{nonce}` placeholders of a policy template
+ */
+export function formatPolicy(template: string, nonce: string): string {
+	return template.replaceAll("{nonce}", nonce)
+}
+
+/**
+ * Split HTML where a nonce attribute belongs: right after the name of every
+ * `<script>` and `<style>` tag that doesn't already have one. Joining the
+ * parts with ` nonce="..."` gives the HTML for a request.
+ */
+export function splitNonceTemplate(html: string): string[] {
+	const parts: string[] = []
+	let start = 0
+
+	for (const match of html.matchAll(TAG_PATTERN)) {
+		const [, tagName = "", attributes = ""] = match
+		if (/\snonce\s*=/i.test(attributes)) {
+			continue
+		}
+		const insertAt = match.index + 1 + tagName.length
+		parts.push(html.slice(start, insertAt))
+		start = insertAt
+	}
+
+	parts.push(html.slice(start))
+	return parts
+}
+
+/**
+ * Insert a nonce into HTML split by splitNonceTemplate
+ */
+export function applyNonce(parts: readonly string[], nonce: string): string {
+	return parts.join(` nonce="${nonce}"`)
+}
@@ -0,0 +1,174 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import assert from "node:assert/strict"
+import { type TestContext, test } from "node:test"
+import { brotliCompressSync, gzipSync } from "node:zlib"
+import { acceptedEncodings, appendVary, parseAcceptEncoding } from "./encoding"
+import {
+	createTestAssetProvider,
+	createTestServer,
+	listen,
+} from "./test-helpers"
+
+const APP_JS = "console.log('original')"
+
+// Each variant decodes to distinct content so tests can tell which was served
+const TEST_ASSETS: Record<string, Buffer> = {
+	"client/app.js": Buffer.from(APP_JS),
+	"client/app.js.br": brotliCompressSync("console.log('brotli')"),
+	"client/app.js.gz": gzipSync("console.log('gzip')"),
+	"client/app.js.zst": Buffer.from("zstd-bytes"),
+	"client/style.css": Buffer.from("body { color: red; }"),
+	"client/style.css.gz": gzipSync("body { color: gzip; }"),
+}
+
+const assetProvider = createTestAssetProvider(TEST_ASSETS)
+
+async function createServer(t: TestContext, preCompressed = true) {
+	const fastify = await createTestServer(t, {
+		preCompressed,
+		assetProvider,
+	})
+
+	return listen(fastify)
+}
+
+test("Accept-Encoding negotiation", async t => {
+	const supported = ["br", "zstd", "gzip"]
+
+	await t.test("parses q-values", () => {
+		assert.deepEqual(
+			[...parseAcceptEncoding("gzip;q=0.5, br, identity;q=0")],
+			[
+				["gzip", 0.5],
+				["br", 1],
+				["identity", 0],
+			]
+		)
+	})
+
+	await t.test("orders by q-value then server preference", () => {
+		assert.deepEqual(acceptedEncodings("gzip, br", supported), ["br", "gzip"])
+		assert.deepEqual(acceptedEncodings("gzip, br;q=0.5", supported), [
+			"gzip",
+			"br",
+		])
+		assert.deepEqual(acceptedEncodings("*", supported), supported)
+		assert.deepEqual(acceptedEncodings("*, br;q=0", supported), [
+			"zstd",
+			"gzip",
+		])
+	})
+
+	await t.test("prefers identity when ranked higher", () => {
+		assert.deepEqual(acceptedEncodings(undefined, supported), [])
+		assert.deepEqual(acceptedEncodings("identity", supported), [])
+		assert.deepEqual(acceptedEncodings("gzip;q=0.2, identity", supported), [])
+	})
+})
+
+test("appendVary", () => {
+	assert.equal(appendVary(undefined, "accept-encoding"), "accept-encoding")
+	assert.equal(
+		appendVary("Origin", "accept-encoding"),
+		"Origin, accept-encoding"
+	)
+	assert.equal(
+		appendVary(["Origin", "Accept-Encoding"], "accept-encoding"),
+		"Origin, Accept-Encoding"
+	)
+	assert.equal(appendVary("*", "accept-encoding"), "*")
+})
+
+test("precompressed assets", async t => {
+	await t.test("serves the best accepted variant", async (t: TestContext) => {
+		const address = await createServer(t)
+
+		const response = await fetch(`${address}/app.js`, {
+			headers: { "accept-encoding": "gzip, br" },
+		})
+		assert.equal(response.status, 200)
+		assert.equal(response.headers.get("content-encoding"), "br")
+		assert.equal(response.headers.get("vary"), "accept-encoding")
+		assert.equal(
+			response.headers.get("content-type"),
+			"application/javascript; charset=utf-8"
+		)
+		assert.equal(await response.text(), "console.log('brotli')")
+	})
+
+	await t.test("honors q-values", async (t: TestContext) => {
+		const address = await createServer(t)
+
+		const gzipResponse = await fetch(`${address}/app.js`, {
+			headers: { "accept-encoding": "br;q=0.1, gzip;q=0.9" },
+		})
+		assert.equal(gzipResponse.headers.get("content-encoding"), "gzip")
+		assert.equal(await gzipResponse.text(), "console.log('gzip')")
+
+		const zstdResponse = await fetch(`${address}/app.js`, {
+			headers: { "accept-encoding": "zstd" },
+		})
+		assert.equal(zstdResponse.headers.get("content-encoding"), "zstd")
+		await zstdResponse.body?.cancel()
+	})
+
+	await t.test("falls back to available variants", async (t: TestContext) => {
+		const address = await createServer(t)
+
+		const response = await fetch(`${address}/style.css`, {
+			headers: { "accept-encoding": "br, gzip" },
+		})
+		assert.equal(response.headers.get("content-encoding"), "gzip")
+		assert.equal(
+			response.headers.get("content-type"),
+			"text/css; charset=utf-8"
+		)
+		assert.equal(await response.text(), "body { color: gzip; }")
+	})
+
+	await t.test(
+		"serves identity when nothing matches",
+		async (t: TestContext) => {
+			const address = await createServer(t)
+
+			const response = await fetch(`${address}/app.js`, {
+				headers: { "accept-encoding": "identity" },
+			})
+			assert.equal(response.headers.get("content-encoding"), null)
+			assert.equal(response.headers.get("vary"), "accept-encoding")
+			assert.equal(await response.text(), APP_JS)
+		}
+	)
+
+	await t.test("keeps an existing Vary header", async (t: TestContext) => {
+		const fastify = await createTestServer(t, {
+			preCompressed: true,
+			assetProvider,
+		})
+		fastify.get("/script", (_request, reply) => {
+			reply.header("vary", "origin")
+			return reply.sendFile("app.js")
+		})
+
+		const response = await fastify.inject({
+			url: "/script",
+			headers: { "accept-encoding": "gzip" },
+		})
+		assert.equal(response.headers.vary, "origin, accept-encoding")
+		assert.equal(response.headers["content-encoding"], "gzip")
+	})
+
+	await t.test("is disabled by default", async (t: TestContext) => {
+		const address = await createServer(t, false)
+
+		const response = await fetch(`${address}/app.js`, {
+			headers: { "accept-encoding": "br, gzip" },
+		})
+		assert.equal(response.headers.get("content-encoding"), null)
+		assert.equal(response.headers.get("vary"), null)
+		assert.equal(await response.text(), APP_JS)
+	})
+})
@@ -0,0 +1,89 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+/**
+ * Content codings that may be served from precompressed sibling assets,
+ * mapped to the file extension of the sibling, in server preference order
+ */
+export const PRECOMPRESSED_EXTENSIONS: Readonly<Record<string, string>> = {
+	br: ".br",
+	zstd: ".zst",
+	gzip: ".gz",
+}
+
+/**
+ * Parse an `Accept-Encoding` header into a map of coding to q-value
+ */
+export function parseAcceptEncoding(header: string): Map<string, number> {
+	const codings = new Map<string, number>()
+
+	for (const entry of header.split(",")) {
+		const [coding, ...params] = entry.trim().split(";")
+		if (!coding) {
+			continue
+		}
+
+		let quality = 1
+		for (const param of params) {
+			const [key, value] = param.trim().split("=")
+			if (key?.toLowerCase() === "q") {
+				const parsed = Number.parseFloat(value ?? "")
+				quality = Number.isNaN(parsed) ? 0 : Math.min(Math.max(parsed, 0), 1)
+			}
+		}
+
+		codings.set(coding.trim().toLowerCase(), quality)
+	}
+
+	return codings
+}
+
+/**
+ * Get the codings the client accepts over an unencoded response, ordered by
+ * q-value and then by the order of `supported`. An empty array means the
+ * identity representation should be served.
+ */
+export function acceptedEncodings(
+	header: string | string[] | undefined,
+	supported: readonly string[]
+): string[] {
+	if (!header) {
+		return []
+	}
+
+	const codings = parseAcceptEncoding(
+		Array.isArray(header) ? header.join(",") : header
+	)
+	const wildcard = codings.get("*")
+	// identity only competes with other codings when the client ranks it
+	const identity = codings.get("identity") ?? wildcard ?? 0
+
+	return supported
+		.map((coding, order) => ({
+			coding,
+			order,
+			quality: codings.get(coding) ?? wildcard ?? 0,
+		}))
+		.filter(({ quality }) => quality > 0 && quality >= identity)
+		.sort((a, b) => b.quality - a.quality || a.order - b.order)
+		.map(({ coding }) => coding)
+}
+
+/**
+ * Add a field to a `Vary` header value, keeping the fields already listed
+ */
+export function appendVary(
+	vary: string | number | string[] | undefined,
+	field: string
+): string {
+	const current = Array.isArray(vary) ? vary.join(", ") : String(vary ?? "")
+	const fields = current
+		.split(",")
+		.map(name => name.trim().toLowerCase())
+		.filter(Boolean)
+	if (fields.includes("*") || fields.includes(field.toLowerCase())) {
+		return current
+	}
+	return current ? `${current}, ${field}` : field
+}
@@ -0,0 +1,184 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import assert from "node:assert/strict"
+import http from "node:http"
+import type { AddressInfo } from "node:net"
+import { type TestContext, test } from "node:test"
+import type { FastifySeaStaticOptions } from "./fastify-sea-static"
+import { createTestAssetProvider, createTestServer } from "./test-helpers"
+
+const TEST_ASSETS: Record<string, string> = {
+	"client/index.html": "<html>App</html>",
+	"client/.env": "SECRET=1",
+	"client/private/data.json": '{"secret": true}',
+	"client/errors/404.html": "<html>Not Found</html>",
+	"client/errors/403.html": "<html>Forbidden</html>",
+	"client/errors/500.html": "<html>Server Error</html>",
+}
+
+const HTML_ACCEPT = "text/html,application/xhtml+xml,*/*;q=0.8"
+
+const assetProvider = createTestAssetProvider(TEST_ASSETS)
+
+async function createServer(
+	t: TestContext,
+	options: Partial<FastifySeaStaticOptions> = {}
+) {
+	const fastify = await createTestServer(t, {
+		errorPages: { 403: "errors/403.html", 404: "errors/404.html" },
+		assetProvider,
+		...options,
+	})
+	return fastify
+}
+
+test("error pages", async t => {
+	await t.test("serves the 404 page to browsers", async (t: TestContext) => {
+		const fastify = await createServer(t)
+
+		const response = await fastify.inject({
+			url: "/missing.html",
+			headers: { accept: HTML_ACCEPT },
+		})
+		assert.equal(response.statusCode, 404)
+		assert.equal(response.headers["content-type"], "text/html; charset=utf-8")
+		assert.equal(response.headers["cache-control"], "no-cache")
+		assert.equal(response.body, "<html>Not Found</html>")
+	})
+
+	await t.test("sends JSON to other clients", async (t: TestContext) => {
+		const fastify = await createServer(t, { dotfiles: "deny" })
+
+		const notFound = await fastify.inject({
+			url: "/missing.html",
+			headers: { accept: "application/json" },
+		})
+		assert.equal(notFound.statusCode, 404)
+		assert.equal(notFound.json().error, "Not Found")
+
+		const forbidden = await fastify.inject("/.env")
+		assert.equal(forbidden.statusCode, 403)
+		assert.deepEqual(forbidden.json(), { error: "Forbidden" })
+	})
+
+	await t.test("applies to every rejection path", async (t: TestContext) => {
+		const fastify = await createServer(t, {
+			dotfiles: "deny",
+			exclude: ["private/**"],
+			blockedResponse: { statusCode: 403 },
+			allowedPath: pathName => pathName !== "index.html",
+		})
+
+		const expected: Record<string, [number, string]> = {
+			"/.env": [403, "<html>Forbidden</html>"],
+			"/private/data.json": [403, "<html>Forbidden</html>"],
+			"/index.html": [404, "<html>Not Found</html>"],
+			"/nested/": [404, "<html>Not Found</html>"],
+			"/bad%00.html": [404, "<html>Not Found</html>"],
+		}
+		for (const [url, [statusCode, body]] of Object.entries(expected)) {
+			const response = await fastify.inject({
+				url,
+				headers: { accept: HTML_ACCEPT },
+			})
+			assert.equal(response.statusCode, statusCode, url)
+			assert.equal(response.body, body, url)
+		}
+	})
+
+	await t.test(
+		"serves error pages from the prefix hooks",
+		async (t: TestContext) => {
+			const fastify = await createServer(t, { prefix: "/static" })
+			await fastify.listen({ port: 0 })
+			const { port } = fastify.server.address() as AddressInfo
+
+			// fetch and inject normalize the URL, so send the raw request path
+			const { statusCode, body } = await new Promise<{
+				statusCode?: number
+				body: string
+			}>((resolve, reject) => {
+				http
+					.get(
+						{
+							port,
+							path: "/static/../secret.html",
+							headers: { accept: HTML_ACCEPT },
+						},
+						response => {
+							let body = ""
+							response.setEncoding("utf8")
+							response.on("data", chunk => {
+								body += chunk
+							})
+							response.on("end", () =>
+								resolve({ statusCode: response.statusCode, body })
+							)
+						}
+					)
+					.on("error", reject)
+			})
+			assert.equal(statusCode, 404)
+			assert.equal(body, "<html>Not Found</html>")
+		}
+	)
+
+	await t.test(
+		"falls back when the error page is missing",
+		async (t: TestContext) => {
+			const fastify = await createServer(t, {
+				errorPages: { 404: "errors/missing.html" },
+			})
+
+			const response = await fastify.inject({
+				url: "/missing.html",
+				headers: { accept: HTML_ACCEPT },
+			})
+			assert.equal(response.statusCode, 404)
+			assert.equal(response.json().error, "Not Found")
+		}
+	)
+
+	await t.test(
+		"serves the 500 page when serving fails",
+		async (t: TestContext) => {
+			const fastify = await createServer(t, {
+				errorPages: { 500: "errors/500.html" },
+				assetProvider: {
+					...assetProvider,
+					getAsset: (key: string, encoding?: string) => {
+						if (key === "client/broken.html") {
+							throw new Error("Disk read failed")
+						}
+						return assetProvider.getAsset(key, encoding)
+					},
+				},
+				// The manifest lists the asset, so only the read itself fails
+				manifest: {
+					version: 1,
+					assets: {
+						"client/broken.html": { size: 16 },
+						"client/errors/500.html": { size: 25 },
+					},
+				},
+			})
+
+			const page = await fastify.inject({
+				url: "/broken.html",
+				headers: { accept: HTML_ACCEPT },
+			})
+			assert.equal(page.statusCode, 500)
+			assert.equal(page.headers["content-type"], "text/html; charset=utf-8")
+			assert.equal(page.body, "<html>Server Error</html>")
+
+			const json = await fastify.inject({
+				url: "/broken.html",
+				headers: { accept: "application/json" },
+			})
+			assert.equal(json.statusCode, 500)
+			assert.equal(json.json().message, "Disk read failed")
+		}
+	)
+})
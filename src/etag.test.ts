@@ -0,0 +1,112 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import assert from "node:assert/strict"
+import { createHash } from "node:crypto"
+import { type TestContext, test } from "node:test"
+import Fastify from "fastify"
+import fastifySeaStatic, {
+	type FastifySeaStaticOptions,
+} from "./fastify-sea-static"
+import {
+	createTestAssetProvider,
+	createTestServer,
+	listen,
+} from "./test-helpers"
+
+// Same 120 byte header and same length, differing only at the end
+const HEADER = "x".repeat(120)
+const TEST_ASSETS: Record<string, Buffer> = {
+	"client/a.json": Buffer.from(`${HEADER}-a`),
+	"client/b.json": Buffer.from(`${HEADER}-b`),
+}
+
+const assetProvider = createTestAssetProvider(TEST_ASSETS)
+
+async function createServer(
+	t: TestContext,
+	opts: FastifySeaStaticOptions = {}
+) {
+	const fastify = await createTestServer(t, {
+		assetProvider,
+		...opts,
+	})
+
+	return listen(fastify)
+}
+
+test("content-hash ETags", async t => {
+	await t.test(
+		"differ for assets with a common prefix",
+		async (t: TestContext) => {
+			const address = await createServer(t)
+
+			const a = await fetch(`${address}/a.json`)
+			const b = await fetch(`${address}/b.json`)
+			await Promise.all([a.text(), b.text()])
+
+			const expected = createHash("sha1")
+				.update(TEST_ASSETS["client/a.json"] as Buffer)
+				.digest("base64url")
+			assert.equal(a.headers.get("etag"), `"${expected}"`)
+			assert.notEqual(a.headers.get("etag"), b.headers.get("etag"))
+
+			// A stale ETag from the other asset must not produce a 304
+			const conditional = await fetch(`${address}/a.json`, {
+				headers: { "if-none-match": b.headers.get("etag") ?? "" },
+			})
+			assert.equal(conditional.status, 200)
+			await conditional.text()
+		}
+	)
+
+	await t.test(
+		"support other algorithms and weak tags",
+		async (t: TestContext) => {
+			const address = await createServer(t, {
+				etagAlgorithm: "sha256",
+				weakEtag: true,
+			})
+
+			const response = await fetch(`${address}/a.json`)
+			await response.text()
+
+			const expected = createHash("sha256")
+				.update(TEST_ASSETS["client/a.json"] as Buffer)
+				.digest("base64url")
+			assert.equal(response.headers.get("etag"), `W/"${expected}"`)
+		}
+	)
+
+	await t.test("can be supplied by a manifest", async (t: TestContext) => {
+		const manifest: Record<string, string> = { "client/a.json": "build-1234" }
+		const address = await createServer(t, {
+			etagProvider: assetPath => manifest[assetPath],
+		})
+
+		const a = await fetch(`${address}/a.json`)
+		const b = await fetch(`${address}/b.json`)
+		await Promise.all([a.text(), b.text()])
+
+		assert.equal(a.headers.get("etag"), '"build-1234"')
+		assert.match(b.headers.get("etag") ?? "", /^"[\w-]+"$/)
+
+		const conditional = await fetch(`${address}/a.json`, {
+			headers: { "if-none-match": '"build-1234"' },
+		})
+		assert.equal(conditional.status, 304)
+	})
+
+	await t.test("reject unknown algorithms", async () => {
+		const fastify = Fastify()
+		fastify.register(fastifySeaStatic, {
+			assetProvider,
+			etagAlgorithm: "not-a-hash",
+		})
+		await assert.rejects(
+			async () => fastify.ready(),
+			/Unsupported etagAlgorithm/
+		)
+	})
+})
@@ -0,0 +1,28 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { createHash } from "node:crypto"
+
+/**
+ * Create an ETag from a hash of the full asset content
+ */
+export function hashEtag(
+	content: Buffer,
+	algorithm: string,
+	weak: boolean
+): string {
+	const digest = createHash(algorithm).update(content).digest("base64url")
+	return formatEtag(digest, weak)
+}
+
+/**
+ * Quote an opaque tag as an ETag value. Values that are already quoted
+ * (or carry a weak prefix) are returned unchanged.
+ */
+export function formatEtag(tag: string, weak: boolean): string {
+	if (tag.startsWith('"') || tag.startsWith("W/")) {
+		return tag
+	}
+	return weak ? `W/"${tag}"` : `"${tag}"`
+}
@@ -2,8 +2,10 @@
 // Use of this source code is governed by a BSD-style
 // license that can be found in the LICENSE file.
 
+import { getHashes } from "node:crypto"
+import { statSync } from "node:fs"
+import { STATUS_CODES } from "node:http"
 import path from "node:path"
-import { Readable } from "node:stream"
 import send from "@fastify/send"
 import contentDisposition from "content-disposition"
 import type {
@@ -14,6 +16,57 @@ import type {
 	LogLevel,
 } from "fastify"
 import fp from "fastify-plugin"
+import {
+	type CacheControlRule,
+	isFingerprinted,
+	matchCacheControl,
+} from "./cache-control.js"
+import {
+	BufferLruCache,
+	type CompressionEncoding,
+	compressAsset,
+} from "./compression.js"
+import { evaluatePreconditions, strongCompare } from "./conditional.js"
+import { getContentType } from "./content-type.js"
+import {
+	DEFAULT_CSP_POLICY,
+	applyNonce,
+	formatPolicy,
+	generateNonce,
+	splitNonceTemplate,
+} from "./csp.js"
+import {
+	PRECOMPRESSED_EXTENSIONS,
+	acceptedEncodings,
+	appendVary,
+} from "./encoding.js"
+import { formatEtag, hashEtag } from "./etag.js"
+import { createFsAssetProvider } from "./fs-asset-provider.js"
+import { matchesGlob } from "./glob.js"
+import { type ListEntry, listDirectory, renderListing } from "./list.js"
+import { type AssetManifest, loadManifest } from "./manifest.js"
+import {
+	type HeaderRule,
+	type RedirectRule,
+	matchHeaders,
+	matchRedirect,
+	parseHeaders,
+	parseRedirects,
+} from "./netlify.js"
+import {
+	RANGE_MALFORMED,
+	RANGE_UNSATISFIABLE,
+	contentRange,
+	multipartByteranges,
+	parseRange,
+} from "./range.js"
+import { AssetResolver } from "./resolver.js"
+import { type RewriteRule, applyRewrites } from "./rewrite.js"
+import {
+	type TransformOptions,
+	isTransformable,
+	transformText,
+} from "./transform.js"
 
 // Complete Sea API interface matching the Node.js type definitions
 export interface SeaAssetProvider {
@@ -49,6 +102,12 @@ export interface SeaAssetProvider {
 	 * return a copy. Instead, it returns the raw asset bundled inside the executable.
 	 */
 	getRawAsset?: (key: string) => ArrayBuffer
+
+	/**
+	 * List the keys of all bundled assets. Used for directory listings when
+	 * no asset manifest is available.
+	 */
+	getAssetKeys?: () => string[]
 }
 
 /**
@@ -58,6 +117,11 @@ export interface FastifySeaStaticOptions {
 	/** How to handle dotfiles: "allow", "deny", or "ignore" (default: "allow") */
 	dotfiles?: "allow" | "deny" | "ignore"
 	assetProvider?: SeaAssetProvider
+	/**
+	 * Directory to serve assets from when not running inside a SEA, e.g.
+	 * 'dist/client'. Ignored when an assetProvider is given.
+	 */
+	devRoot?: string
 	/** Root directory in the SEA assets (default: 'client') */
 	root?: string
 	/** URL path prefix (default: '/') */
@@ -84,25 +148,246 @@ export interface FastifySeaStaticOptions {
 	cacheControl?: boolean
 	/** Max age for Cache-Control header in seconds (default: 31536000 - 1 year) */
 	maxAge?: number
+	/**
+	 * Ordered Cache-Control rules. The first rule matching the asset path
+	 * relative to the root decides the header; other assets get
+	 * `public, max-age=<maxAge>`
+	 */
+	cacheControlRules?: CacheControlRule[]
+	/**
+	 * Send `public, max-age=<maxAge>, immutable` for content-hashed filenames
+	 * and a revalidating Cache-Control for everything else. Pass an object to
+	 * tune the behavior (default: false)
+	 */
+	fingerprint?: boolean | FingerprintOptions
 	/** Enable or disable ETag header (default: true) */
 	etag?: boolean
+	/** Hash algorithm used to compute ETags from asset content (default: 'sha1') */
+	etagAlgorithm?: string
+	/** If true, send weak (W/) ETags instead of strong ones (default: false) */
+	weakEtag?: boolean
+	/**
+	 * Function to supply ETags from a build manifest. Receives the asset key
+	 * and the content encoding being served. Return undefined to fall back to
+	 * hashing the asset content.
+	 */
+	etagProvider?: (assetPath: string, encoding?: string) => string | undefined
 	/** Enable or disable Last-Modified header (default: true) */
 	lastModified?: boolean
+	/**
+	 * Modification time used for Last-Modified on all assets
+	 * (default: the modification time of the executable)
+	 */
+	buildTime?: Date | string | number
+	/**
+	 * Per-asset modification times, keyed by asset key (e.g. 'client/index.html').
+	 * Takes precedence over buildTime.
+	 */
+	lastModifiedMap?: Record<string, Date | string | number>
+	/**
+	 * Serve precompressed `.br`, `.zst` or `.gz` sibling assets when the
+	 * client accepts them (default: false)
+	 */
+	preCompressed?: boolean
+	/**
+	 * Compress compressible assets on the fly when no precompressed variant
+	 * is served. Pass an object to tune the behavior (default: false)
+	 */
+	compress?: boolean | CompressOptions
+	/**
+	 * Asset key of the JSON asset manifest, or the manifest itself. When
+	 * present it is used for existence checks, ETags, Last-Modified and
+	 * content types instead of reading assets. Set to false to ignore a
+	 * bundled manifest (default: 'sea-static-manifest.json' if bundled)
+	 */
+	manifest?: string | AssetManifest | false
 	/** Index filenames to try when accessing a directory (default: ['index.html']) */
 	index?: string | string[] | false
 	/** If true, redirect to directory with trailing slash (default: false) */
 	redirect?: boolean
+	/**
+	 * Extensions to try appending when no asset matches the path exactly,
+	 * e.g. ['html', 'htm'] to serve guide/install.html at /guide/install
+	 */
+	extensions?: string[]
+	/**
+	 * Redirect requests that include one of the extensions to the URL without
+	 * it, e.g. /page.html to /page (default: false)
+	 */
+	extensionRedirect?: boolean
+	/**
+	 * Ordered rules mapping request paths onto other assets before they are
+	 * resolved, e.g. { from: '/v1/docs/*', to: 'docs/:splat' }. The first
+	 * matching rule wins.
+	 */
+	rewrites?: RewriteRule[]
+	/**
+	 * Transform text assets (by default HTML) before sending, e.g. to inject
+	 * runtime configuration. Results are cached per asset.
+	 */
+	transform?: TransformOptions
+	/**
+	 * Generate a nonce for every request, add it to the `<script>` and
+	 * `<style>` tags of served HTML and send a matching
+	 * Content-Security-Policy header. Pass an object to tune the policy
+	 * (default: false)
+	 */
+	cspNonce?: boolean | CspNonceOptions
+	/**
+	 * List the contents of directories without an index file, using the asset
+	 * manifest or the provider's getAssetKeys. Pass an object to tune the
+	 * behavior (default: false)
+	 */
+	list?: boolean | ListOptions
+	/**
+	 * Load Netlify-style `_redirects` and `_headers` files from the root at
+	 * registration. Pass an object to use other filenames (default: false)
+	 */
+	netlify?: boolean | NetlifyOptions
+	/**
+	 * Serve a fallback asset for client-side routes that don't match an asset.
+	 * Pass an object to tune the behavior (default: false)
+	 */
+	spa?: boolean | SpaOptions
+	/**
+	 * Globs of paths relative to the root that may be served, e.g.
+	 * ['assets/**', '*.html']. Other paths are blocked (default: all paths)
+	 */
+	include?: string[]
+	/** Globs of paths relative to the root that are never served */
+	exclude?: string[]
+	/**
+	 * Globs of dotfile paths served whatever the dotfiles option says,
+	 * e.g. ['.well-known/**']
+	 */
+	dotfilesAllowList?: string[]
+	/** Response for paths blocked by include or exclude (default: 404) */
+	blockedResponse?: BlockedResponse
+	/**
+	 * Assets to serve as error pages to browsers, by status code and relative
+	 * to the root, e.g. { 404: '404.html' }. Other clients still get JSON.
+	 */
+	errorPages?: Partial<Record<number, string>>
 	/** Whether to throw errors to be caught by Fastify's error handler */
 	useErrorHandler?: boolean
 	/**
-	 * Function to determine if a file should be served.
-	 * Return true to allow, false to deny (returns 404).
+	 * Function to determine if a file should be served, sync or async.
+	 * Return true to allow, false to deny (returns 404), or an
+	 * AllowedPathResult to deny with another status code.
 	 */
-	allowedPath?: (
-		pathName: string,
-		root: string,
-		request: FastifyRequest
-	) => boolean
+	allowedPath?: AllowedPath
+}
+
+/**
+ * Response for requests blocked by the include and exclude globs
+ */
+export interface BlockedResponse {
+	/** Status code to reject with (default: 404, via the not found handler) */
+	statusCode?: 403 | 404
+	/** Message sent in the 403 response body and the thrown error */
+	message?: string
+}
+
+/**
+ * Result of an allowedPath check with a custom status code and reason
+ */
+export interface AllowedPathResult {
+	/** Whether to serve the file */
+	allow: boolean
+	/** Status code for denied requests (default: 404) */
+	statusCode?: 401 | 403 | 404
+	/** Reason sent in the error response and the thrown error's message */
+	reason?: string
+}
+
+/**
+ * Decides whether a file may be served
+ */
+export type AllowedPath = (
+	pathName: string,
+	root: string,
+	request: FastifyRequest
+) => boolean | AllowedPathResult | Promise<boolean | AllowedPathResult>
+
+/**
+ * Options for on-the-fly compression
+ */
+export interface CompressOptions {
+	/** Encodings to offer, in preference order (default: ['br', 'gzip']) */
+	encodings?: CompressionEncoding[]
+	/** Minimum asset size in bytes worth compressing (default: 1024) */
+	threshold?: number
+	/** Maximum bytes of compressed output kept in memory (default: 50 MiB) */
+	cacheSize?: number
+	/**
+	 * Function to determine if a content type is compressible
+	 * (default: send.isUtf8MimeType)
+	 */
+	filter?: (contentType: string) => boolean
+}
+
+/**
+ * Options for fingerprint based caching
+ */
+export interface FingerprintOptions {
+	/**
+	 * Regular expression matching fingerprinted filenames, tested against the
+	 * last path segment (default: `name.[8+ hex].ext` and `name-[8+ base64url].ext`)
+	 */
+	pattern?: RegExp
+	/**
+	 * Cache-Control for assets without a fingerprint
+	 * (default: 'public, max-age=0, must-revalidate')
+	 */
+	cacheControl?: string
+}
+
+/**
+ * Options for CSP nonces
+ */
+export interface CspNonceOptions {
+	/**
+	 * Content-Security-Policy template, with `{nonce}` replaced by the
+	 * request's nonce (default: DEFAULT_CSP_POLICY)
+	 */
+	policy?: string
+	/** Send Content-Security-Policy-Report-Only instead (default: false) */
+	reportOnly?: boolean
+}
+
+/**
+ * Options for Netlify-style `_redirects` and `_headers` files
+ */
+export interface NetlifyOptions {
+	/** Redirects file relative to the root, or false to skip it (default: '_redirects') */
+	redirects?: string | false
+	/** Headers file relative to the root, or false to skip it (default: '_headers') */
+	headers?: string | false
+}
+
+/**
+ * Options for directory listings
+ */
+export interface ListOptions {
+	/**
+	 * Listing format when the request has no `format` query parameter
+	 * (default: 'html')
+	 */
+	format?: "html" | "json"
+	/** Custom HTML renderer, receiving the subdirectories and files */
+	render?: (dirs: ListEntry[], files: ListEntry[]) => string
+}
+
+/**
+ * Options for the SPA fallback
+ */
+export interface SpaOptions {
+	/** Asset to serve, relative to the root (default: 'index.html') */
+	fallback?: string
+	/** URL prefixes that never receive the fallback, e.g. ['/api'] (default: []) */
+	exclude?: string[]
+	/** Cache-Control header for fallback responses (default: 'no-cache') */
+	cacheControl?: string
 }
 
 /**
@@ -115,6 +400,8 @@ export interface StaticFileOptions {
 	cacheControl?: boolean
 	/** Max age for Cache-Control header in seconds */
 	maxAge?: number
+	/** Cache-Control rules to use instead of the plugin's */
+	cacheControlRules?: CacheControlRule[]
 	/** Enable or disable ETag header */
 	etag?: boolean
 	/** Enable or disable Last-Modified header */
@@ -124,18 +411,20 @@ export interface StaticFileOptions {
 	/** Whether to throw errors to be caught by Fastify's error handler */
 	useErrorHandler?: boolean
 	/**
-	 * Function to determine if a file should be served.
-	 * Return true to allow, false to deny (returns 404).
+	 * Function to determine if a file should be served, sync or async.
+	 * Return true to allow, false to deny (returns 404), or an
+	 * AllowedPathResult to deny with another status code.
 	 */
-	allowedPath?: (
-		pathName: string,
-		root: string,
-		request: FastifyRequest
-	) => boolean
+	allowedPath?: AllowedPath
 }
 
 // Extend FastifyReply interface to include our custom methods
 declare module "fastify" {
+	interface FastifyRequest {
+		/** CSP nonce of the request, set when the cspNonce option is enabled */
+		cspNonce?: string
+	}
+
 	interface FastifyReply {
 		/** Send a file from SEA assets */
 		sendFile(filepath: string, options?: StaticFileOptions): FastifyReply
@@ -162,7 +451,7 @@ declare module "fastify" {
  * Get the SEA module or a fallback if not in a SEA environment
  * This is a function to delay the require until runtime
  */
-function getSeaModule(): SeaAssetProvider {
+export function getSeaModule(): SeaAssetProvider {
 	try {
 		// Only try to require node:sea in a dynamic context
 		return require("node:sea")
@@ -171,20 +460,18 @@ function getSeaModule(): SeaAssetProvider {
 		const mockProvider = {
 			isSea: () => false,
 
-			// Implementation for both overloads
+			// Outside a SEA nothing is bundled, so fail like node:sea does for
+			// unknown keys instead of returning empty assets
 			getAsset(key: string, encoding?: string): ArrayBuffer | string {
-				if (encoding) {
-					return "" // String version when encoding is provided
-				}
-				return new ArrayBuffer(0) // ArrayBuffer when no encoding
+				throw new Error(`No matching asset found for ${key}`)
 			},
 
 			getAssetAsBlob: (key: string, options?: { type: string }): Blob => {
-				return new Blob([], { type: options?.type })
+				throw new Error(`No matching asset found for ${key}`)
 			},
 
 			getRawAsset: (key: string): ArrayBuffer => {
-				return new ArrayBuffer(0)
+				throw new Error(`No matching asset found for ${key}`)
 			},
 		}
 
@@ -192,8 +479,30 @@ function getSeaModule(): SeaAssetProvider {
 		return mockProvider as SeaAssetProvider
 	}
 }
-// Cache for MIME types to avoid repeated lookups
-const mimeTypeCache = new Map<string, string>()
+/**
+ * Run an allowedPath check and normalize its result
+ */
+async function checkAllowedPath(
+	allowedPath: AllowedPath,
+	pathName: string,
+	root: string,
+	request: FastifyRequest
+): Promise<AllowedPathResult> {
+	const result = await allowedPath(pathName, root, request)
+	return typeof result === "boolean" ? { allow: result } : result
+}
+
+/**
+ * Get the modification time of the running executable, falling back to the
+ * current time if it can't be read
+ */
+function getExecutableMtime(): Date {
+	try {
+		return statSync(process.execPath).mtime
+	} catch {
+		return new Date()
+	}
+}
 
 /**
  * A Fastify plugin to serve static files from SEA assets
@@ -202,14 +511,26 @@ const fastifySeaStatic: FastifyPluginAsync<FastifySeaStaticOptions> = async (
 	fastify: FastifyInstance,
 	opts: FastifySeaStaticOptions
 ): Promise<void> => {
-	// Use the provided asset provider or get the default one
-	const { isSea, getAsset } = opts.assetProvider || getSeaModule()
-	// Validate if we're running in a SEA environment
-	if (!isSea()) {
+	// Use the provided asset provider or get the default one. Outside a SEA,
+	// devRoot switches to serving the same asset keys from the filesystem
+	let assetProvider = opts.assetProvider || getSeaModule()
+	if (!opts.assetProvider && opts.devRoot && !assetProvider.isSea()) {
+		assetProvider = createFsAssetProvider(opts.devRoot, {
+			prefix: opts.root ?? "client",
+		})
+		fastify.log.info(
+			`fastify-sea-static is serving assets from ${opts.devRoot} outside a SEA environment`
+		)
+	} else if (!assetProvider.isSea()) {
+		// Validate if we're running in a SEA environment
 		fastify.log.warn(
 			"fastify-sea-static is being used but we are not running in a SEA environment"
 		)
 	}
+	const { getAsset } = assetProvider
+
+	// Load the asset manifest when one is bundled
+	const manifest = loadManifest(assetProvider, opts.manifest)
 
 	// Set default options
 	const prefix = opts.prefix ?? "/"
@@ -223,6 +544,17 @@ const fastifySeaStatic: FastifyPluginAsync<FastifySeaStaticOptions> = async (
 					? opts.index
 					: [opts.index]
 
+	// Generate a CSP nonce for every request, so other routes can use it too
+	const cspOptions: CspNonceOptions | undefined =
+		opts.cspNonce === true ? {} : opts.cspNonce || undefined
+	if (cspOptions) {
+		fastify.decorateRequest("cspNonce", undefined)
+		fastify.addHook("onRequest", (request, reply, done) => {
+			request.cspNonce = generateNonce()
+			done()
+		})
+	}
+
 	fastify.addHook("onRequest", (request, reply, done) => {
 		const url = request.url
 		console.debug("onRequest URL:", url)
@@ -242,7 +574,7 @@ const fastifySeaStatic: FastifyPluginAsync<FastifySeaStaticOptions> = async (
 					`Blocked prefix bypass attempt: ${url} -> ${normalizedUrl}`
 				)
 				// Explicitly send 404 - NOT using callNotFound() which might be overridden
-				reply.code(404).send({ error: "Not Found" })
+				sendError(request, reply, 404)
 				return
 			}
 		}
@@ -300,7 +632,7 @@ const fastifySeaStatic: FastifyPluginAsync<FastifySeaStaticOptions> = async (
 			// Check if this is a traversal attack
 			if (isPathTraversalEscapingPrefix(rawUrl)) {
 				fastify.log.warn(`Blocked prefix path traversal attack: ${rawUrl}`)
-				reply.code(404).send({ error: "Not Found" })
+				sendError(request, reply, 404)
 				return
 			}
 
@@ -326,7 +658,7 @@ const fastifySeaStatic: FastifyPluginAsync<FastifySeaStaticOptions> = async (
 				fastify.log.warn(
 					`Blocked path traversal attempt at static hook: ${url} -> ${normalizedPath}`
 				)
-				reply.code(404).send({ error: "Not Found" })
+				sendError(request, reply, 404)
 				return
 			}
 
@@ -334,6 +666,74 @@ const fastifySeaStatic: FastifyPluginAsync<FastifySeaStaticOptions> = async (
 		})
 	}
 
+	// Resolve on-the-fly compression settings
+	const compressOptions: CompressOptions | undefined =
+		opts.compress === true ? {} : opts.compress || undefined
+	const compressEncodings = compressOptions?.encodings ?? ["br", "gzip"]
+	const compressThreshold = compressOptions?.threshold ?? 1024
+	const compressFilter = compressOptions?.filter ?? send.isUtf8MimeType
+	const compressionCache = compressOptions
+		? new BufferLruCache(compressOptions.cacheSize ?? 50 * 1024 * 1024)
+		: undefined
+
+	// ETags are derived from content hashes, memoized per asset representation
+	const etagAlgorithm = opts.etagAlgorithm ?? "sha1"
+	if (!getHashes().includes(etagAlgorithm)) {
+		throw new Error(`Unsupported etagAlgorithm: ${etagAlgorithm}`)
+	}
+	const weakEtag = opts.weakEtag ?? false
+	const etagCache = new Map<string, string>()
+
+	// Transformed assets, cached by asset key
+	const transformTypes = opts.transform?.types ?? ["text/html"]
+	const transformCache = new Map<string, Buffer>()
+
+	// HTML split where CSP nonces go, cached by asset key
+	const nonceTemplateCache = new Map<string, string[]>()
+
+	// SEA assets are immutable, so their contents and resolved paths are kept
+	// in memory. Other providers (e.g. devRoot) are re-read on every request.
+	const cacheAssets = assetProvider.isSea()
+	const assetCache = new Map<string, Buffer>()
+
+	// Resolve request paths to asset keys, answering existence checks from the
+	// manifest when one is loaded instead of reading assets
+	const resolver = new AssetResolver(
+		key => (manifest ? Object.hasOwn(manifest.assets, key) : probeAsset(key)),
+		{ indexFiles, extensions: opts.extensions, cache: cacheAssets }
+	)
+	if (manifest) {
+		resolver.prewarm(Object.keys(manifest.assets))
+	}
+
+	// Resolve directory listing settings
+	const listOptions: ListOptions | undefined =
+		opts.list === true ? {} : opts.list || undefined
+	let assetKeys: string[] | undefined
+
+	// Response for paths blocked by the include and exclude globs
+	const blockedRejection = {
+		statusCode: opts.blockedResponse?.statusCode ?? 404,
+		message: opts.blockedResponse?.message ?? "Blocked path",
+		reason: opts.blockedResponse?.message,
+	}
+
+	// Last-Modified defaults to the build time or the executable's own mtime,
+	// so it stays stable across requests and restarts of the same binary
+	const defaultLastModified = new Date(
+		opts.buildTime ?? getExecutableMtime()
+	).toUTCString()
+
+	// Resolve fingerprint caching settings
+	const fingerprintOptions: FingerprintOptions | undefined =
+		opts.fingerprint === true ? {} : opts.fingerprint || undefined
+
+	// Resolve SPA fallback settings
+	const spaOptions: SpaOptions | undefined =
+		opts.spa === true ? {} : opts.spa || undefined
+	const spaFallback = spaOptions?.fallback ?? "index.html"
+	const spaExclude = spaOptions?.exclude ?? []
+
 	// Normalize the root path (remove leading/trailing slashes)
 	const normalizedRoot = root
 		.replace(/^\/+/, "") // Remove leading slashes
@@ -346,6 +746,25 @@ const fastifySeaStatic: FastifyPluginAsync<FastifySeaStaticOptions> = async (
 			? prefix
 			: `${prefix}/`
 
+	// Load _redirects and _headers rules once, since assets never change
+	const netlifyOptions: NetlifyOptions | undefined =
+		opts.netlify === true ? {} : opts.netlify || undefined
+	const redirectsFile =
+		netlifyOptions && (netlifyOptions.redirects ?? "_redirects")
+	const headersFile = netlifyOptions && (netlifyOptions.headers ?? "_headers")
+	const redirectRules: RedirectRule[] = redirectsFile
+		? parseRedirects(readRulesFile(redirectsFile))
+		: []
+	const headerRules: HeaderRule[] = headersFile
+		? parseHeaders(readRulesFile(headersFile))
+		: []
+	// The rules files configure the plugin and are never served
+	const rulesFileKeys = new Set(
+		[redirectsFile, headersFile]
+			.filter(file => typeof file === "string")
+			.map(file => path.posix.join(normalizedRoot, file))
+	)
+
 	// Decorating reply with sendFile and download methods
 	if (opts.decorateReply !== false) {
 		// Define sendFile decorator
@@ -372,8 +791,11 @@ const fastifySeaStatic: FastifyPluginAsync<FastifySeaStaticOptions> = async (
 					}
 				}
 
-				// Start sending the file - this must be synchronous
-				void sendSeaAsset(this.request, this, filepath, fileRoot, fileOptions)
+				// Start sending the file - this must be synchronous. Errors such as
+				// denials with useErrorHandler go to the reply instead of being lost.
+				sendSeaAsset(this.request, this, filepath, fileRoot, fileOptions).catch(
+					err => this.send(err)
+				)
 				return this
 			}
 		)
@@ -403,13 +825,13 @@ const fastifySeaStatic: FastifyPluginAsync<FastifySeaStaticOptions> = async (
 				this.header("content-disposition", contentDisposition(filename))
 
 				// Start sending the file - this must be synchronous
-				void sendSeaAsset(
+				sendSeaAsset(
 					this.request,
 					this,
 					filepath,
 					fileOptions.root ?? normalizedRoot,
 					fileOptions
-				)
+				).catch(err => this.send(err))
 				return this
 			}
 		)
@@ -438,8 +860,7 @@ const fastifySeaStatic: FastifyPluginAsync<FastifySeaStaticOptions> = async (
 					fastify.log.warn(
 						`Blocked null byte injection attempt: ${requestPath}`
 					)
-					reply.callNotFound()
-					return reply
+					return notFound(req, reply)
 				}
 
 				// Handle path traversal protection more robustly
@@ -456,43 +877,458 @@ const fastifySeaStatic: FastifyPluginAsync<FastifySeaStaticOptions> = async (
 					fastify.log.warn(
 						`Blocked path traversal attempt: ${fullRequestPath} -> ${normalizedPath}`
 					)
-					reply.callNotFound()
-					return reply
+					return notFound(req, reply)
+				}
+
+				// Apply _redirects rules before resolving the asset
+				if (redirectRules.length > 0) {
+					const redirected = applyRedirectRules(req, reply, requestPath)
+					if (redirected) {
+						return redirected
+					}
+				}
+
+				// Map the request onto another asset; sendSeaAsset still applies
+				// traversal protection and allowedPath to the rewritten path
+				const rewrittenPath =
+					opts.rewrites && applyRewrites(opts.rewrites, `/${requestPath}`)
+				if (rewrittenPath !== undefined) {
+					return sendSeaAsset(req, reply, rewrittenPath, normalizedRoot)
 				}
 
 				// Handle trailing slash redirect if enabled
 				if (opts.redirect && requestPath && !requestPath.endsWith("/")) {
-					try {
-						const testPath = path.posix.join(normalizedRoot, requestPath)
-
-						// Check if any index file exists
-						let indexFound = false
-
-						for (const index of indexFiles) {
-							try {
-								const indexPath = path.posix.join(testPath, index)
-								getAsset(indexPath)
-								indexFound = true
-								break
-							} catch {
-								// Index not found, continue checking
-							}
-						}
-
-						if (indexFound) {
-							const redirectUrl = `${req.url}/`
-							return reply.redirect(redirectUrl)
-						}
-					} catch {
-						// Ignore errors during redirect check
+					const testPath = path.posix.join(normalizedRoot, requestPath)
+
+					// Check if any index file exists
+					if (resolver.resolve(`${testPath}/`)) {
+						const redirectUrl = `${req.url}/`
+						return reply.redirect(redirectUrl)
 					}
 				}
 
+				// Redirect /page.html to its clean URL /page
+				if (opts.extensionRedirect && opts.extensions) {
+					const cleanPath = stripExtension(requestPath)
+					if (
+						cleanPath !== undefined &&
+						resolver.resolve(path.posix.join(normalizedRoot, cleanPath))
+							?.key === path.posix.join(normalizedRoot, requestPath)
+					) {
+						// Keep the query string; the extension is plain ASCII, so it has
+						// the same length in the raw URL
+						const queryIndex = req.url.indexOf("?")
+						const urlPath =
+							queryIndex === -1 ? req.url : req.url.slice(0, queryIndex)
+						const query = queryIndex === -1 ? "" : req.url.slice(queryIndex)
+						const extensionLength = requestPath.length - cleanPath.length
+						return reply.redirect(
+							`${urlPath.slice(0, -extensionLength)}${query}`,
+							301
+						)
+					}
+				}
+
+				// Serve the SPA fallback for client-side routes without a matching asset
+				if (spaOptions && isSpaRoute(req) && !assetExists(requestPath)) {
+					reply.header("cache-control", spaOptions.cacheControl ?? "no-cache")
+					return sendSeaAsset(req, reply, spaFallback, normalizedRoot, {
+						cacheControl: false,
+					})
+				}
+
 				return sendSeaAsset(req, reply, requestPath, normalizedRoot)
 			},
 		})
 	}
 
+	/**
+	 * Read a _redirects or _headers file from the root, treating a missing
+	 * file as empty
+	 */
+	function readRulesFile(file: string): string {
+		const key = path.posix.join(normalizedRoot, file)
+		try {
+			return readAsset(key).toString("utf8")
+		} catch {
+			fastify.log.debug(`No ${file} file found at ${key}`)
+			return ""
+		}
+	}
+
+	/**
+	 * Get a request's URL path relative to the prefix, which _redirects and
+	 * _headers rules match against
+	 */
+	function getRulePath(request: FastifyRequest): string {
+		const urlPath = request.url.split("?")[0] ?? "/"
+		const prefixPath = finalPrefix.replace(/\/+$/, "")
+		if (prefixPath && urlPath.startsWith(prefixPath)) {
+			return urlPath.slice(prefixPath.length) || "/"
+		}
+		return urlPath
+	}
+
+	/**
+	 * Apply the first _redirects rule matching the request: redirect for 3xx,
+	 * serve the destination asset for 200 rewrites, or serve it with the
+	 * rule's status otherwise. Returns undefined when no rule applies.
+	 */
+	function applyRedirectRules(
+		request: FastifyRequest,
+		reply: FastifyReply,
+		requestPath: string
+	): FastifyReply | Promise<FastifyReply> | undefined {
+		const match = matchRedirect(redirectRules, getRulePath(request))
+		if (!match) {
+			return undefined
+		}
+
+		// Unforced rules don't shadow existing assets
+		const { rule, location } = match
+		if (!rule.force && assetExists(requestPath)) {
+			return undefined
+		}
+
+		if (rule.status >= 300 && rule.status < 400) {
+			const queryIndex = request.url.indexOf("?")
+			const query =
+				queryIndex === -1 || location.includes("?")
+					? ""
+					: request.url.slice(queryIndex)
+			return reply.redirect(`${location}${query}`, rule.status)
+		}
+
+		// Proxying to other hosts isn't supported
+		if (/^[a-z][a-z\d+.-]*:/i.test(location)) {
+			fastify.log.warn(`Skipped _redirects proxy rule to ${location}`)
+			return undefined
+		}
+
+		let target: string
+		try {
+			target = decodeURIComponent(location.split("?")[0] ?? "")
+		} catch {
+			return undefined
+		}
+
+		// Rewrites go through sendSeaAsset, so traversal protection and
+		// allowedPath still apply to the destination
+		if (rule.status === 200) {
+			return sendSeaAsset(request, reply, target, normalizedRoot)
+		}
+
+		const pageKey = path.posix.join(normalizedRoot, target)
+		if (sendPage(reply, rule.status, pageKey)) {
+			return reply
+		}
+		return rule.status === 404
+			? notFound(request, reply)
+			: sendError(request, reply, rule.status)
+	}
+
+	/**
+	 * Remove one of the configured extensions from the end of a path.
+	 * Returns undefined when the path has none of them.
+	 */
+	function stripExtension(requestPath: string): string | undefined {
+		const extension = opts.extensions
+			?.map(candidate => `.${candidate.replace(/^\./, "")}`)
+			.find(candidate => requestPath.endsWith(candidate))
+		return extension ? requestPath.slice(0, -extension.length) : undefined
+	}
+
+	/**
+	 * Check if a request should receive the SPA fallback: an HTML navigation
+	 * to an extensionless path outside the excluded prefixes
+	 */
+	function isSpaRoute(request: FastifyRequest): boolean {
+		const accept = request.headers.accept ?? ""
+		if (!accept.includes("text/html")) {
+			return false
+		}
+
+		const urlPath = request.url.split("?")[0] ?? ""
+		if (path.posix.extname(urlPath) !== "") {
+			return false
+		}
+
+		return !spaExclude.some(excluded => {
+			const excludedPrefix = excluded.replace(/\/+$/, "")
+			return (
+				urlPath === excludedPrefix || urlPath.startsWith(`${excludedPrefix}/`)
+			)
+		})
+	}
+
+	/**
+	 * Check if a request path resolves to an asset, directly or via an index file
+	 */
+	function assetExists(requestPath: string): boolean {
+		const assetPath = path.posix.join(normalizedRoot, requestPath)
+		if (resolver.resolve(assetPath)) {
+			return true
+		}
+
+		// Listable directories exist too
+		return (
+			listOptions !== undefined &&
+			(requestPath === "" || requestPath.endsWith("/")) &&
+			listAssetKeys() !== undefined &&
+			listDirectory(listAssetKeys() ?? [], assetPath) !== undefined
+		)
+	}
+
+	/**
+	 * Get every asset key from the manifest or the provider, if either can
+	 * list them
+	 */
+	function listAssetKeys(): string[] | undefined {
+		if (manifest) {
+			return Object.keys(manifest.assets)
+		}
+		if (assetKeys) {
+			return assetKeys
+		}
+
+		const keys = assetProvider.getAssetKeys?.()
+		if (cacheAssets) {
+			assetKeys = keys
+		}
+		return keys
+	}
+
+	/**
+	 * Send a listing of a directory without an index file. Entries blocked by
+	 * include, exclude, dotfiles or allowedPath are left out. Returns false when
+	 * there is nothing to list.
+	 */
+	async function sendListing(
+		request: FastifyRequest,
+		reply: FastifyReply,
+		directory: string,
+		filepath: string,
+		root: string,
+		options: StaticFileOptions
+	): Promise<boolean> {
+		const keys = listAssetKeys()
+		const listing = keys && listDirectory(keys, directory)
+		if (!listOptions || !listing) {
+			return false
+		}
+
+		const dotfilesOption = options.dotfiles ?? opts.dotfiles ?? "allow"
+		const allowedPathFn = options.allowedPath ?? opts.allowedPath
+		const isVisible = async (name: string, suffix: string) => {
+			const entryPath = `${filepath}${name}${suffix}`
+			return (
+				!getBlockedReason(entryPath, suffix === "/") &&
+				(dotfilesOption === "allow" ||
+					!name.startsWith(".") ||
+					isAllowListedDotfile(entryPath)) &&
+				(!allowedPathFn ||
+					(await checkAllowedPath(allowedPathFn, entryPath, root, request))
+						.allow)
+			)
+		}
+
+		const [dirsVisible, filesVisible] = await Promise.all([
+			Promise.all(listing.dirs.map(entry => isVisible(entry.name, "/"))),
+			Promise.all(listing.files.map(entry => isVisible(entry.name, ""))),
+		])
+		const dirs = listing.dirs.filter((_entry, i) => dirsVisible[i])
+		const files = listing.files.filter((_entry, i) => filesVisible[i])
+
+		const query = request.query as { format?: string } | undefined
+		const format = query?.format ?? listOptions.format ?? "html"
+		if (format === "json") {
+			reply.send({
+				dirs: dirs.map(entry => entry.name),
+				files: files.map(entry => entry.name),
+			})
+			return true
+		}
+
+		const urlPath = request.url.split("?")[0] ?? "/"
+		const html = listOptions.render
+			? listOptions.render(dirs, files)
+			: renderListing(urlPath, dirs, files)
+		reply.type("text/html; charset=utf-8").send(html)
+		return true
+	}
+
+	/**
+	 * Check if an asset exists by reading it. The content is cached, so a
+	 * following read of the same asset is free.
+	 */
+	function probeAsset(key: string): boolean {
+		try {
+			readAsset(key)
+			return true
+		} catch {
+			return false
+		}
+	}
+
+	/**
+	 * Check a path relative to the root against the include and exclude
+	 * globs. Directories only need to pass exclude; their index file is
+	 * checked once resolved.
+	 */
+	function getBlockedReason(
+		pathName: string,
+		isDirectory: boolean
+	): string | undefined {
+		if (opts.exclude?.length && matchesGlob(pathName, opts.exclude)) {
+			return "excluded path"
+		}
+		if (
+			!isDirectory &&
+			opts.include?.length &&
+			!matchesGlob(pathName, opts.include)
+		) {
+			return "path not included"
+		}
+		return undefined
+	}
+
+	/**
+	 * Check if a dotfile path is served regardless of the dotfiles option
+	 */
+	function isAllowListedDotfile(pathName: string): boolean {
+		return (
+			opts.dotfilesAllowList !== undefined &&
+			opts.dotfilesAllowList.length > 0 &&
+			matchesGlob(pathName, opts.dotfilesAllowList)
+		)
+	}
+
+	/**
+	 * Log and reject a blocked request, by throwing for the error handler,
+	 * through the not found handler for 404s or with an error page or body
+	 */
+	function rejectPath(
+		request: FastifyRequest,
+		reply: FastifyReply,
+		filepath: string,
+		reason: string,
+		rejection: { statusCode: number; message: string; reason?: string },
+		useErrorHandler: boolean
+	): FastifyReply {
+		fastify.log.info(`Blocked ${reason}: ${filepath}`)
+
+		if (useErrorHandler) {
+			const error = new Error(rejection.message)
+			Object.assign(error, {
+				statusCode: rejection.statusCode,
+			})
+			throw error
+		}
+		if (rejection.statusCode === 404) {
+			return notFound(request, reply)
+		}
+		return sendError(request, reply, rejection.statusCode, rejection.reason)
+	}
+
+	/**
+	 * Reject a request as not found with the 404 error page, or through the
+	 * not found handler when the client doesn't want HTML
+	 */
+	function notFound(
+		request: FastifyRequest,
+		reply: FastifyReply
+	): FastifyReply {
+		if (!sendErrorPage(request, reply, 404)) {
+			reply.callNotFound()
+		}
+		return reply
+	}
+
+	/**
+	 * Reject a request with the error page for the status code, or a JSON
+	 * error body when the client doesn't want HTML
+	 */
+	function sendError(
+		request: FastifyRequest,
+		reply: FastifyReply,
+		statusCode: number,
+		message?: string
+	): FastifyReply {
+		if (!sendErrorPage(request, reply, statusCode)) {
+			reply.code(statusCode).send({
+				error: STATUS_CODES[statusCode],
+				...(message && { message }),
+			})
+		}
+		return reply
+	}
+
+	/**
+	 * Send the configured error page for a status code to clients that accept
+	 * HTML. Returns false when there is no page to send.
+	 */
+	function sendErrorPage(
+		request: FastifyRequest,
+		reply: FastifyReply,
+		statusCode: number
+	): boolean {
+		const page = opts.errorPages?.[statusCode]
+		const accept = request.headers.accept ?? ""
+		if (!page || !accept.includes("text/html")) {
+			return false
+		}
+
+		return sendPage(reply, statusCode, path.posix.join(normalizedRoot, page))
+	}
+
+	/**
+	 * Send an asset as-is with a status code, for error pages and _redirects
+	 * rules with 4xx statuses. Returns false when the asset doesn't exist.
+	 */
+	function sendPage(
+		reply: FastifyReply,
+		statusCode: number,
+		pageKey: string
+	): boolean {
+		let content: Buffer
+		try {
+			content = readAsset(pageKey)
+		} catch {
+			fastify.log.warn(`Page for ${statusCode} not found: ${pageKey}`)
+			return false
+		}
+
+		reply
+			.code(statusCode)
+			.header(
+				"content-type",
+				manifest?.assets[pageKey]?.type ?? getContentType(pageKey)
+			)
+			.header("cache-control", "no-cache")
+			.send(content)
+		return true
+	}
+
+	/**
+	 * Read an asset as a Buffer, preferring getRawAsset which returns a view of
+	 * the executable's memory instead of a copy
+	 */
+	function readAsset(key: string): Buffer {
+		const cached = assetCache.get(key)
+		if (cached) {
+			return cached
+		}
+
+		const raw = assetProvider.getRawAsset
+			? assetProvider.getRawAsset(key)
+			: (getAsset(key) as ArrayBuffer)
+		const content = Buffer.from(raw)
+		if (cacheAssets) {
+			assetCache.set(key, content)
+		}
+		return content
+	}
+
 	/**
 	 * Send a SEA asset to the client
 	 */
@@ -503,48 +1339,50 @@ const fastifySeaStatic: FastifyPluginAsync<FastifySeaStaticOptions> = async (
 		root: string,
 		options: StaticFileOptions = {}
 	): Promise<FastifyReply> {
-		// Clean the filepath (remove leading slash and normalize path)
-		// Add this near the beginning of the sendSeaAsset function
 		// Clean the filepath (remove leading slash, normalize path, and remove null bytes)
-		const cleanFilepath = filepath
+		const strippedFilepath = filepath
 			.replace(/^\/+/, "")
 			.replace(/\0/g, "") // Remove null bytes
 			.replace(/%00/g, "") // Remove URL-encoded null bytes
 
-		const normalizedPath = path.posix.normalize(cleanFilepath)
-		if (normalizedPath.includes("../") || normalizedPath.includes("..\\")) {
+		// Reject any ".." segment, e.g. from a decoded %2f, instead of letting
+		// normalization resolve it past the checks below
+		if (strippedFilepath.split(/[/\\]/).includes("..")) {
 			fastify.log.warn(
 				`Blocked path traversal attempt in sendSeaAsset: ${filepath}`
 			)
-			reply.callNotFound()
-			return reply
+			return notFound(request, reply)
 		}
 
+		// Every check below runs on the same normalized path the key is built from
+		const cleanFilepath = path.posix
+			.normalize(strippedFilepath)
+			.replace(/^\.(?:\/|$)/, "")
+
 		// Get the useErrorHandler option (default to false for backward compatibility)
 		const useErrorHandler =
 			options.useErrorHandler ?? opts.useErrorHandler ?? false
 
-		// Check if the path is allowed via the allowedPath function
-		const allowedPathFn = options.allowedPath ?? opts.allowedPath
-		if (allowedPathFn && !allowedPathFn(cleanFilepath, root, request)) {
-			// Path is not allowed, handle not found based on useErrorHandler option
-			if (useErrorHandler) {
-				const error = new Error(`Access denied: ${filepath}`)
-				Object.assign(error, {
-					statusCode: 404,
-				})
-				throw error
-				// biome-ignore lint/style/noUselessElse: <explanation>
-			} else {
-				reply.callNotFound()
-				return reply
-			}
+		// Check the include and exclude globs
+		const isDirectory = cleanFilepath === "" || cleanFilepath.endsWith("/")
+		const blockedReason = getBlockedReason(cleanFilepath, isDirectory)
+		if (blockedReason) {
+			return rejectPath(
+				request,
+				reply,
+				filepath,
+				blockedReason,
+				blockedRejection,
+				useErrorHandler
+			)
 		}
 
-		// Check if this is a dotfile request
-		const isDotfile = cleanFilepath
-			.split("/")
-			.some(part => part.startsWith(".") && part !== "." && part !== "..")
+		// Check if this is a dotfile request, unless it is explicitly allowed
+		const isDotfile =
+			cleanFilepath
+				.split("/")
+				.some(part => part.startsWith(".") && part !== "." && part !== "..") &&
+			!isAllowListedDotfile(cleanFilepath)
 
 		// Handle dotfiles according to the option
 		if (isDotfile) {
@@ -552,142 +1390,289 @@ const fastifySeaStatic: FastifyPluginAsync<FastifySeaStaticOptions> = async (
 
 			if (dotfilesOption === "deny") {
 				// Return 403 Forbidden for dotfiles
-				reply.code(403).send({ error: "Forbidden" })
-				return reply
+				fastify.log.info(`Blocked dotfile: ${filepath}`)
+				return sendError(request, reply, 403)
 				// biome-ignore lint/style/noUselessElse: <explanation>
 			} else if (dotfilesOption === "ignore") {
-				// Handle not found based on useErrorHandler option
-				if (useErrorHandler) {
-					const error = new Error(`File not found: ${filepath}`)
-					Object.assign(error, {
-						statusCode: 404,
-					})
-					throw error
-					// biome-ignore lint/style/noUselessElse: <explanation>
-				} else {
-					reply.callNotFound()
-					return reply
-				}
+				return rejectPath(
+					request,
+					reply,
+					filepath,
+					"dotfile",
+					{ statusCode: 404, message: `File not found: ${filepath}` },
+					useErrorHandler
+				)
 			}
 			// If 'allow', continue processing as normal
 		}
 
+		// Check if the path is allowed via the allowedPath function
+		const allowedPathFn = options.allowedPath ?? opts.allowedPath
+		const access =
+			allowedPathFn &&
+			(await checkAllowedPath(allowedPathFn, cleanFilepath, root, request))
+		if (access && !access.allow) {
+			return rejectPath(
+				request,
+				reply,
+				filepath,
+				"by allowedPath",
+				{
+					statusCode: access.statusCode ?? 404,
+					message: access.reason ?? `Access denied: ${filepath}`,
+					reason: access.reason,
+				},
+				useErrorHandler
+			)
+		}
+
 		// Build the full asset path
 		let assetPath = path.posix.join(root, cleanFilepath)
 
 		try {
-			try {
-				// First try to get the asset directly
-				getAsset(assetPath)
-			} catch (err) {
-				// If direct path fails, check if it's a directory request
+			// Resolve the asset directly or fall back to an index file
+			const resolved = resolver.resolve(assetPath)
+			if (!resolved) {
+				// Directory requests without an index file are not found
 				if (cleanFilepath === "" || cleanFilepath.endsWith("/")) {
-					let foundIndex = false
-
-					// Try to find an index file
-					for (const index of indexFiles) {
-						try {
-							const indexPath = path.posix.join(assetPath, index)
-							getAsset(indexPath)
-							assetPath = indexPath
-							foundIndex = true
-							break
-						} catch {
-							// Continue trying other index files
-						}
+					if (
+						listOptions &&
+						(await sendListing(
+							request,
+							reply,
+							assetPath,
+							cleanFilepath,
+							root,
+							options
+						))
+					) {
+						return reply
 					}
 
-					// If no index file found, handle not found
-					if (!foundIndex) {
-						if (useErrorHandler) {
-							const error = new Error(
-								`No index file found in directory: ${assetPath}`
-							)
-							Object.assign(error, {
-								statusCode: 404,
-							})
-							throw error
-							// biome-ignore lint/style/noUselessElse: <explanation>
-						} else {
-							reply.callNotFound()
-							return reply
-						}
-					}
-				} else {
-					// Check if it's a directory without trailing slash
-					let foundIndex = false
-					for (const index of indexFiles) {
-						try {
-							const indexPath = path.posix.join(assetPath, index)
-							getAsset(indexPath)
-
-							// If redirect is enabled, redirect to the path with trailing slash
-							if (opts.redirect) {
-								const redirectUrl = `${request.url}/`
-								reply.redirect(redirectUrl)
-								return reply
-							}
-
-							// Otherwise serve the index file
-							assetPath = indexPath
-							foundIndex = true
-							break
-						} catch {
-							// Continue trying other index files
-						}
+					if (useErrorHandler) {
+						const error = new Error(
+							`No index file found in directory: ${assetPath}`
+						)
+						Object.assign(error, {
+							statusCode: 404,
+						})
+						throw error
+						// biome-ignore lint/style/noUselessElse: <explanation>
+					} else {
+						return notFound(request, reply)
 					}
+				}
+				throw new Error(`No matching asset found for ${assetPath}`)
+			}
 
-					// If no index file found and not a redirect, throw the error
-					if (!foundIndex) {
-						throw err
-					}
+			if (resolved.index) {
+				// If redirect is enabled, redirect directories to the path with trailing slash
+				if (
+					opts.redirect &&
+					cleanFilepath !== "" &&
+					!cleanFilepath.endsWith("/")
+				) {
+					const redirectUrl = `${request.url}/`
+					reply.redirect(redirectUrl)
+					return reply
 				}
 			}
 
-			// Get the asset content
-			const asset = getAsset(assetPath) as ArrayBuffer
+			// Serve the asset or the directory's index file
+			assetPath = resolved.key
+
+			// Checked on the final key so every way of reaching it is covered
+			if (rulesFileKeys.has(assetPath)) {
+				return notFound(request, reply)
+			}
+
+			// Index files are subject to the include and exclude globs too
+			const indexBlockedReason =
+				resolved.index &&
+				getBlockedReason(path.posix.relative(root, assetPath), false)
+			if (indexBlockedReason) {
+				return rejectPath(
+					request,
+					reply,
+					filepath,
+					indexBlockedReason,
+					blockedRejection,
+					useErrorHandler
+				)
+			}
 
-			// Set the content type based on the file extension
-			const contentType = getContentType(assetPath)
+			// Get the content type from the manifest or the file extension
+			const contentType =
+				manifest?.assets[assetPath]?.type ?? getContentType(assetPath)
+
+			// Transformed assets differ from the bundled bytes, so their
+			// precompressed variants and provided ETags don't apply
+			const transformed =
+				opts.transform !== undefined &&
+				isTransformable(contentType, transformTypes)
+
+			// HTML gets the request's CSP nonce, so it differs on every request
+			const nonce =
+				cspOptions && isTransformable(contentType, ["text/html"])
+					? request.cspNonce
+					: undefined
+
+			// Get the asset content, preferring a precompressed variant the
+			// client accepts when preCompressed is enabled
+			let asset: Buffer | undefined
+			if (opts.preCompressed && !transformed && nonce === undefined) {
+				reply.header(
+					"vary",
+					appendVary(reply.getHeader("vary"), "accept-encoding")
+				)
+
+				const encodings = acceptedEncodings(
+					request.headers["accept-encoding"],
+					Object.keys(PRECOMPRESSED_EXTENSIONS)
+				)
+				const manifestEncodings = manifest?.assets[assetPath]?.encodings
+				for (const encoding of encodings) {
+					// The manifest tells us which variants exist without probing
+					if (manifest && !manifestEncodings?.[encoding]) {
+						continue
+					}
+					const variantKey = `${assetPath}${PRECOMPRESSED_EXTENSIONS[encoding]}`
+					if (manifest || resolver.has(variantKey)) {
+						asset = readAsset(variantKey)
+						reply.header("content-encoding", encoding)
+						break
+					}
+				}
+			}
+			let content = transformed
+				? await getTransformedAsset(assetPath, root)
+				: (asset ?? readAsset(assetPath))
 			if (contentType) {
 				reply.header("content-type", contentType)
 			}
 
-			// Set cache control headers if needed
-			if (options.cacheControl !== false && opts.cacheControl !== false) {
+			if (nonce !== undefined) {
+				content = Buffer.from(
+					applyNonce(getNonceTemplate(assetPath, content), nonce)
+				)
+				reply.header(
+					cspOptions?.reportOnly
+						? "content-security-policy-report-only"
+						: "content-security-policy",
+					formatPolicy(cspOptions?.policy ?? DEFAULT_CSP_POLICY, nonce)
+				)
+			}
+
+			// Compress on the fly when no precompressed variant was served
+			if (
+				compressOptions &&
+				!reply.hasHeader("content-encoding") &&
+				content.byteLength >= compressThreshold &&
+				compressFilter(contentType)
+			) {
+				reply.header(
+					"vary",
+					appendVary(reply.getHeader("vary"), "accept-encoding")
+				)
+
+				const [encoding] = acceptedEncodings(
+					request.headers["accept-encoding"],
+					compressEncodings
+				)
+				if (encoding) {
+					// Responses with a nonce are unique, so they aren't cached
+					content =
+						nonce === undefined
+							? await getCompressedAsset(
+									assetPath,
+									content,
+									encoding as CompressionEncoding
+								)
+							: await compressAsset(content, encoding as CompressionEncoding)
+					reply.header("content-encoding", encoding)
+				}
+			}
+
+			// A nonce must never be reused, so HTML carrying one isn't stored, even
+			// when the caller manages Cache-Control itself (e.g. the SPA fallback)
+			if (nonce !== undefined) {
+				reply.header("cache-control", "no-store")
+			} else if (
+				options.cacheControl !== false &&
+				opts.cacheControl !== false
+			) {
+				const rules = options.cacheControlRules ?? opts.cacheControlRules
 				const maxAge = options.maxAge ?? opts.maxAge ?? 31536000
-				reply.header("cache-control", `public, max-age=${maxAge}`)
+				const pathName = path.posix.relative(root, assetPath)
+				let cacheControl = rules && matchCacheControl(rules, pathName, request)
+
+				// Only content-hashed assets are safe to cache forever
+				if (!cacheControl && fingerprintOptions) {
+					cacheControl = isFingerprinted(pathName, fingerprintOptions.pattern)
+						? `public, max-age=${maxAge}, immutable`
+						: (fingerprintOptions.cacheControl ??
+							"public, max-age=0, must-revalidate")
+				}
+
+				reply.header(
+					"cache-control",
+					cacheControl ?? `public, max-age=${maxAge}`
+				)
 			}
 
-			// Set ETag header if needed
-			if (options.etag !== false && opts.etag !== false) {
-				// Create a simple ETag based on the first bytes of the content and file size
-				const assetSize = asset?.byteLength
-				const etag = Buffer.from(asset?.slice(0, Math.min(100, assetSize)))
-					.toString("base64")
-					.substring(0, 16)
-				const etagValue = `"${etag}-${assetSize}"`
+			// Set ETag header if needed. Responses with a nonce get no validators,
+			// since a 304 would revive a stale nonce
+			if (
+				options.etag !== false &&
+				opts.etag !== false &&
+				nonce === undefined
+			) {
+				const etagValue = getEtag(
+					assetPath,
+					content,
+					reply.getHeader("content-encoding") as string | undefined,
+					transformed
+				)
 				reply.header("etag", etagValue)
+			}
 
-				// Check for conditional request (If-None-Match header)
-				const ifNoneMatch = request.headers["if-none-match"]
-				if (ifNoneMatch && ifNoneMatch === etagValue) {
-					// If ETag matches, return 304 Not Modified without the body
-					reply.code(304).send()
-					return reply
+			// Set Last-Modified header if needed
+			if (
+				options.lastModified !== false &&
+				opts.lastModified !== false &&
+				nonce === undefined
+			) {
+				reply.header("last-modified", getLastModified(assetPath))
+			}
+
+			// Add headers from _headers rules matching the request path
+			if (headerRules.length > 0) {
+				const rulePath = getRulePath(request)
+				for (const [name, value] of matchHeaders(headerRules, rulePath)) {
+					reply.header(name, value)
 				}
 			}
 
-			// Set Last-Modified header if needed
-			if (options.lastModified !== false && opts.lastModified !== false) {
-				reply.header("last-modified", new Date().toUTCString())
+			// Evaluate conditional request headers against the validators
+			const preconditionStatus = evaluatePreconditions(
+				request.method,
+				request.headers,
+				{
+					etag: reply.getHeader("etag") as string | undefined,
+					lastModified: reply.getHeader("last-modified") as string | undefined,
+				}
+			)
+			if (preconditionStatus) {
+				// Return 304 Not Modified or 412 Precondition Failed without the body
+				reply.code(preconditionStatus).send()
+				return reply
 			}
 
 			// If custom headers function is provided, call it
 			if (opts.setHeaders) {
 				try {
 					// Pass the reply object directly, with size information
-					opts.setHeaders(reply, assetPath, { size: asset?.byteLength || 0 })
+					opts.setHeaders(reply, assetPath, { size: content.byteLength })
 				} catch (headerError) {
 					// Add error handling to prevent 500s
 					console.error(`Error setting headers: ${headerError}`)
@@ -695,13 +1680,50 @@ const fastifySeaStatic: FastifyPluginAsync<FastifySeaStaticOptions> = async (
 				}
 			}
 
+			// Advertise and honor byte range requests
+			reply.header("accept-ranges", "bytes")
+			const rangeHeader = request.headers.range
+			if (rangeHeader && isRangeFresh(request, reply)) {
+				const ranges = parseRange(content.byteLength, rangeHeader)
+
+				if (ranges === RANGE_UNSATISFIABLE) {
+					reply.header("content-range", contentRange(content.byteLength))
+					reply.code(416).send()
+					return reply
+				}
+
+				if (ranges !== RANGE_MALFORMED) {
+					reply.code(206)
+
+					if (ranges.length === 1) {
+						const [range] = ranges
+						reply.header(
+							"content-range",
+							contentRange(content.byteLength, range)
+						)
+						await reply.send(content.subarray(range.start, range.end + 1))
+						return reply
+					}
+
+					const { boundary, body } = multipartByteranges(
+						content,
+						ranges,
+						contentType
+					)
+					reply.header(
+						"content-type",
+						`multipart/byteranges; boundary=${boundary}`
+					)
+					await reply.send(body)
+					return reply
+				}
+			}
+
 			// Set status code (200 OK) - after all the header logic
 			reply.code(200)
 
-			// Create a readable stream from the asset
-			const stream = Readable.from(Buffer.from(asset))
-
-			await reply.send(stream)
+			// Send the buffer directly so Content-Length is set without a stream
+			await reply.send(content)
 			return reply
 		} catch (err) {
 			// If the asset doesn't exist, handle not found based on useErrorHandler option
@@ -721,42 +1743,146 @@ const fastifySeaStatic: FastifyPluginAsync<FastifySeaStaticOptions> = async (
 					throw error
 					// biome-ignore lint/style/noUselessElse: <explanation>
 				} else {
-					// Use standard not found handler
-					reply.callNotFound()
-					return reply
+					// Use the error page or the standard not found handler
+					return notFound(request, reply)
 				}
 			}
 
-			// For other errors, log and re-throw
+			// For other errors, log and serve the 500 page or re-throw
 			fastify.log.error(`Error serving SEA asset ${assetPath}: ${errorMessage}`)
+			if (
+				!useErrorHandler &&
+				!reply.sent &&
+				sendErrorPage(request, reply, 500)
+			) {
+				return reply
+			}
 			throw err
 		}
 	}
 	/**
-	 * Get the content type based on file extension
+	 * Get the compressed form of an asset, compressing it on first use.
+	 * SEA assets never change at runtime so results are cached by path and encoding.
+	 */
+	async function getCompressedAsset(
+		assetPath: string,
+		content: Buffer,
+		encoding: CompressionEncoding
+	): Promise<Buffer> {
+		const cacheKey = `${encoding}:${assetPath}`
+		const cached = compressionCache?.get(cacheKey)
+		if (cached) {
+			return cached
+		}
+
+		const compressed = await compressAsset(content, encoding)
+		if (cacheAssets) {
+			compressionCache?.set(cacheKey, compressed)
+		}
+		return compressed
+	}
+
+	/**
+	 * Get the transformed content of an asset, transforming it on first use
 	 */
-	function getContentType(filepath: string): string {
-		const ext = path.extname(filepath).toLowerCase()
+	async function getTransformedAsset(
+		assetPath: string,
+		root: string
+	): Promise<Buffer> {
+		const cached = transformCache.get(assetPath)
+		if (cached) {
+			return cached
+		}
 
-		// Use cached MIME type if available
-		if (mimeTypeCache.has(ext)) {
-			return mimeTypeCache.get(ext) ?? "application/octet-stream"
+		const text = await transformText(
+			readAsset(assetPath).toString("utf8"),
+			path.posix.relative(root, assetPath),
+			opts.transform ?? {}
+		)
+		const content = Buffer.from(text)
+		if (cacheAssets) {
+			transformCache.set(assetPath, content)
 		}
+		return content
+	}
 
-		// Try to get MIME type from send library
-		let mimeType = send.mime.getType(ext.substring(1))
+	/**
+	 * Split an HTML asset where CSP nonces go, once per asset
+	 */
+	function getNonceTemplate(assetPath: string, content: Buffer): string[] {
+		const cached = nonceTemplateCache.get(assetPath)
+		if (cached) {
+			return cached
+		}
+
+		const parts = splitNonceTemplate(content.toString("utf8"))
+		if (cacheAssets) {
+			nonceTemplateCache.set(assetPath, parts)
+		}
+		return parts
+	}
 
-		// Add charset=utf-8 for text-based formats
-		if (mimeType && send.isUtf8MimeType(mimeType)) {
-			mimeType += "; charset=utf-8"
+	/**
+	 * Get the ETag for an asset representation, hashing its content once.
+	 * A tag from the etagProvider hook or the manifest takes precedence over
+	 * the hash, except for transformed assets.
+	 */
+	function getEtag(
+		assetPath: string,
+		content: Buffer,
+		encoding: string | undefined,
+		transformed = false
+	): string {
+		const cacheKey = `${encoding ?? "identity"}:${assetPath}`
+		const cached = etagCache.get(cacheKey)
+		if (cached) {
+			return cached
+		}
+
+		const entry = manifest?.assets[assetPath]
+		const provided =
+			!transformed &&
+			(opts.etagProvider?.(assetPath, encoding) ??
+				(encoding ? entry?.encodings?.[encoding]?.hash : entry?.hash))
+		const etag = provided
+			? formatEtag(provided, weakEtag)
+			: hashEtag(content, etagAlgorithm, weakEtag)
+		if (cacheAssets) {
+			etagCache.set(cacheKey, etag)
+		}
+		return etag
+	}
+
+	/**
+	 * Get the Last-Modified value for an asset, preferring a per-asset time
+	 * from lastModifiedMap or the manifest
+	 */
+	function getLastModified(assetPath: string): string {
+		const assetTime =
+			opts.lastModifiedMap?.[assetPath] ?? manifest?.assets[assetPath]?.mtime
+		return assetTime === undefined
+			? defaultLastModified
+			: new Date(assetTime).toUTCString()
+	}
+
+	/**
+	 * Check whether a Range request may be honored given its If-Range header.
+	 * An entity-tag must strongly match the current ETag, and an HTTP-date
+	 * must equal the current Last-Modified value.
+	 */
+	function isRangeFresh(request: FastifyRequest, reply: FastifyReply): boolean {
+		const ifRange = request.headers["if-range"]
+		if (typeof ifRange !== "string") {
+			return true
 		}
 
-		// Cache the MIME type for future use
-		if (mimeType) {
-			mimeTypeCache.set(ext, mimeType)
+		if (ifRange.startsWith('"') || ifRange.startsWith("W/")) {
+			const etag = reply.getHeader("etag")
+			return typeof etag === "string" && strongCompare(ifRange, etag)
 		}
 
-		return mimeType ?? "application/octet-stream"
+		const lastModified = reply.getHeader("last-modified")
+		return typeof lastModified === "string" && ifRange === lastModified
 	}
 }
 
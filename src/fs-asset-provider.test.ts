@@ -0,0 +1,209 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import assert from "node:assert/strict"
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises"
+import type { AddressInfo } from "node:net"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { type TestContext, test } from "node:test"
+import Fastify from "fastify"
+import fastifySeaStatic, {
+	type FastifySeaStaticOptions,
+} from "./fastify-sea-static"
+import {
+	createFsAssetProvider,
+	createSeaConfigAssetProvider,
+} from "./fs-asset-provider"
+import { generateAssets, writeAssets } from "./generate"
+
+async function createAssetDir(t: TestContext) {
+	const dir = await mkdtemp(path.join(tmpdir(), "sea-static-"))
+	t.after(() => rm(dir, { recursive: true, force: true }))
+
+	await mkdir(path.join(dir, "client/docs"), { recursive: true })
+	await writeFile(path.join(dir, "client/index.html"), "<html>Home</html>")
+	await writeFile(path.join(dir, "client/app.js"), "console.log('app')")
+	await writeFile(path.join(dir, "client/.env"), "SECRET=1")
+	await writeFile(path.join(dir, "client/docs/index.html"), "<html>Docs</html>")
+	await writeFile(path.join(dir, "outside.txt"), "outside")
+	return path.join(dir, "client")
+}
+
+async function createServer(
+	t: TestContext,
+	opts: FastifySeaStaticOptions = {}
+) {
+	const fastify = Fastify()
+	await fastify.register(fastifySeaStatic, { root: "client", ...opts })
+
+	fastify.get("/send", (_req, reply) => {
+		return reply.sendFile("app.js")
+	})
+	fastify.get("/download", (_req, reply) => {
+		return reply.download("app.js", "bundle.js")
+	})
+
+	t.after(() => fastify.close())
+	await fastify.listen({ port: 0 })
+	return `http://localhost:${(fastify.server.address() as AddressInfo).port}`
+}
+
+test("filesystem asset provider", async t => {
+	await t.test("maps asset keys to files", async (t: TestContext) => {
+		const dir = await createAssetDir(t)
+		const provider = createFsAssetProvider(dir, { prefix: "client" })
+
+		assert.equal(provider.isSea(), false)
+		assert.equal(
+			provider.getAsset("client/index.html", "utf8"),
+			"<html>Home</html>"
+		)
+		assert.equal(
+			Buffer.from(provider.getAsset("client/app.js") as ArrayBuffer).toString(),
+			"console.log('app')"
+		)
+		assert.equal(
+			provider.getRawAsset?.("client/docs/index.html").byteLength,
+			17
+		)
+		assert.equal(
+			provider.getAssetAsBlob?.("client/app.js", { type: "text/javascript" })
+				?.type,
+			"text/javascript"
+		)
+		assert.deepEqual(provider.getAssetKeys?.().sort(), [
+			"client/.env",
+			"client/app.js",
+			"client/docs/index.html",
+			"client/index.html",
+		])
+	})
+
+	await t.test("throws for missing keys", async (t: TestContext) => {
+		const dir = await createAssetDir(t)
+		const provider = createFsAssetProvider(dir, { prefix: "client" })
+
+		for (const key of [
+			"client/missing.js",
+			"client/docs",
+			"client/../outside.txt",
+			"index.html",
+		]) {
+			assert.throws(
+				() => provider.getAsset(key),
+				new RegExp(`No matching asset found for ${key}`)
+			)
+		}
+	})
+
+	await t.test("is used for devRoot outside a SEA", async (t: TestContext) => {
+		const dir = await createAssetDir(t)
+		const address = await createServer(t, { devRoot: dir, dotfiles: "deny" })
+
+		const indexResponse = await fetch(`${address}/`)
+		assert.equal(indexResponse.status, 200)
+		assert.equal(await indexResponse.text(), "<html>Home</html>")
+
+		const docsResponse = await fetch(`${address}/docs/`)
+		assert.equal(await docsResponse.text(), "<html>Docs</html>")
+
+		const sendResponse = await fetch(`${address}/send`)
+		assert.equal(await sendResponse.text(), "console.log('app')")
+
+		const downloadResponse = await fetch(`${address}/download`)
+		assert.equal(
+			downloadResponse.headers.get("content-disposition"),
+			'attachment; filename="bundle.js"'
+		)
+		await downloadResponse.text()
+
+		const dotfileResponse = await fetch(`${address}/.env`)
+		assert.equal(dotfileResponse.status, 403)
+		await dotfileResponse.text()
+
+		const missingResponse = await fetch(`${address}/missing.js`)
+		assert.equal(missingResponse.status, 404)
+		await missingResponse.text()
+	})
+
+	await t.test("respects allowedPath", async (t: TestContext) => {
+		const dir = await createAssetDir(t)
+		const address = await createServer(t, {
+			devRoot: dir,
+			allowedPath: pathName => !pathName.endsWith(".js"),
+		})
+
+		const response = await fetch(`${address}/app.js`)
+		assert.equal(response.status, 404)
+		await response.text()
+	})
+})
+
+test("sea-config.json asset provider", async t => {
+	await t.test(
+		"serves only declared assets relative to the config",
+		async (t: TestContext) => {
+			const dir = await createAssetDir(t)
+			const configFile = path.join(dir, "../build/sea-config.json")
+			await mkdir(path.dirname(configFile))
+			await writeFile(
+				configFile,
+				JSON.stringify({
+					main: "server.js",
+					assets: {
+						"client/index.html": "../client/index.html",
+						"client/main.js": "../client/app.js",
+					},
+				})
+			)
+			const provider = createSeaConfigAssetProvider(configFile)
+
+			assert.equal(provider.isSea(), false)
+			assert.equal(
+				provider.getAsset("client/index.html", "utf8"),
+				"<html>Home</html>"
+			)
+			assert.equal(
+				provider.getAsset("client/main.js", "utf8"),
+				"console.log('app')"
+			)
+
+			// On disk but not declared
+			assert.throws(
+				() => provider.getAsset("client/app.js"),
+				/No matching asset found for client\/app.js/
+			)
+		}
+	)
+
+	await t.test(
+		"serves a generated config through the plugin",
+		async (t: TestContext) => {
+			const dir = await createAssetDir(t)
+			const result = await generateAssets({
+				dir,
+				config: path.join(dir, "../sea-config.json"),
+				exclude: [".env"],
+			})
+			await writeAssets(result)
+
+			const address = await createServer(t, {
+				assetProvider: createSeaConfigAssetProvider(result.configFile),
+			})
+
+			const response = await fetch(`${address}/app.js`)
+			assert.equal(response.status, 200)
+			assert.equal(
+				response.headers.get("etag"),
+				`"${result.manifest.assets["client/app.js"]?.hash}"`
+			)
+			assert.equal(await response.text(), "console.log('app')")
+
+			const excluded = await fetch(`${address}/.env`)
+			assert.equal(excluded.status, 404)
+			await excluded.text()
+		}
+	)
+})
@@ -0,0 +1,142 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { readFileSync, readdirSync, statSync } from "node:fs"
+import path from "node:path"
+import type { SeaAssetProvider } from "./fastify-sea-static.js"
+import type { SeaConfig } from "./generate.js"
+
+/**
+ * Options for the filesystem asset provider
+ */
+export interface FsAssetProviderOptions {
+	/**
+	 * Asset key prefix mapped onto the directory, matching the plugin's root
+	 * option. Keys outside the prefix are not found (default: '' for all keys)
+	 */
+	prefix?: string
+}
+
+/**
+ * Create a SeaAssetProvider that reads assets from a directory, so the plugin
+ * behaves the same way in development as it does inside the executable.
+ * With prefix 'client', the key 'client/css/app.css' maps to `${dir}/css/app.css`.
+ */
+export function createFsAssetProvider(
+	dir: string,
+	options: FsAssetProviderOptions = {}
+): SeaAssetProvider {
+	const baseDir = path.resolve(dir)
+	const prefix = (options.prefix ?? "").replace(/^\/+|\/+$/g, "")
+
+	/**
+	 * Map an asset key to a file, throwing like node:sea when it doesn't exist
+	 */
+	function resolveFile(key: string): string {
+		let relative: string | undefined = key
+		if (prefix) {
+			relative = key.startsWith(`${prefix}/`)
+				? key.slice(prefix.length + 1)
+				: undefined
+		}
+
+		if (relative !== undefined) {
+			const file = path.resolve(baseDir, relative)
+
+			// Never resolve outside the directory
+			if (file.startsWith(`${baseDir}${path.sep}`)) {
+				try {
+					if (statSync(file).isFile()) {
+						return file
+					}
+				} catch {
+					// Fall through to the not found error
+				}
+			}
+		}
+
+		throw new Error(`No matching asset found for ${key}`)
+	}
+
+	/**
+	 * Walk the directory for every file it holds, as asset keys
+	 */
+	function listKeys(): string[] {
+		return readdirSync(baseDir, { recursive: true, encoding: "utf8" })
+			.filter(relative => statSync(path.join(baseDir, relative)).isFile())
+			.map(relative => {
+				const key = relative.split(path.sep).join("/")
+				return prefix ? `${prefix}/${key}` : key
+			})
+	}
+
+	return createFileAssetProvider(resolveFile, listKeys)
+}
+
+/**
+ * Create a SeaAssetProvider serving exactly the assets a sea-config.json
+ * declares, with paths resolved relative to the config file like
+ * `node --experimental-sea-config` does. Files are read on each lookup, so
+ * rebuilt assets are picked up without restarting.
+ */
+export function createSeaConfigAssetProvider(
+	configFile: string
+): SeaAssetProvider {
+	const configPath = path.resolve(configFile)
+	const config = JSON.parse(readFileSync(configPath, "utf8")) as SeaConfig
+	const configDir = path.dirname(configPath)
+
+	const files = new Map<string, string>()
+	for (const [key, file] of Object.entries(config.assets ?? {})) {
+		files.set(key, path.resolve(configDir, file))
+	}
+
+	return createFileAssetProvider(
+		key => {
+			const file = files.get(key)
+			if (file === undefined) {
+				throw new Error(`No matching asset found for ${key}`)
+			}
+			return file
+		},
+		() => [...files.keys()]
+	)
+}
+
+/**
+ * Implement the SEA asset API on top of a key to file mapping
+ */
+function createFileAssetProvider(
+	resolveFile: (key: string) => string,
+	listKeys: () => string[]
+): SeaAssetProvider {
+	function readAsset(key: string): ArrayBuffer {
+		const content = readFileSync(resolveFile(key))
+		return content.buffer.slice(
+			content.byteOffset,
+			content.byteOffset + content.byteLength
+		) as ArrayBuffer
+	}
+
+	return {
+		isSea: () => false,
+
+		getAsset(key: string, encoding?: string): ArrayBuffer | string {
+			if (encoding) {
+				return readFileSync(resolveFile(key), encoding as BufferEncoding)
+			}
+			return readAsset(key)
+		},
+
+		getAssetAsBlob: (key: string, options?: { type: string }): Blob => {
+			return new Blob([readAsset(key)], { type: options?.type })
+		},
+
+		getRawAsset: (key: string): ArrayBuffer => {
+			return readAsset(key)
+		},
+
+		getAssetKeys: listKeys,
+	}
+}
@@ -0,0 +1,156 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import assert from "node:assert/strict"
+import {
+	mkdir,
+	mkdtemp,
+	readFile,
+	rm,
+	utimes,
+	writeFile,
+} from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { type TestContext, test } from "node:test"
+import { gunzipSync } from "node:zlib"
+import { checkAssets, generateAssets, writeAssets } from "./generate"
+import type { AssetManifest } from "./manifest"
+
+const APP_JS = "console.log('compress me');\n".repeat(100)
+
+async function createProject(t: TestContext): Promise<string> {
+	const dir = await mkdtemp(path.join(tmpdir(), "fastify-sea-static-"))
+	t.after(() => rm(dir, { recursive: true, force: true }))
+
+	await mkdir(path.join(dir, "dist/client/assets"), { recursive: true })
+	await writeFile(path.join(dir, "dist/client/index.html"), "<html>Hi</html>")
+	await writeFile(path.join(dir, "dist/client/assets/app.js"), APP_JS)
+	await writeFile(path.join(dir, "dist/client/assets/app.js.map"), "{}")
+	await writeFile(path.join(dir, "dist/client/logo.svg"), "<svg/>")
+	await writeFile(path.join(dir, "dist/client/logo.svg.gz"), "prebuilt")
+	await writeFile(
+		path.join(dir, "sea-config.json"),
+		JSON.stringify({
+			main: "dist/bundle.js",
+			output: "sea-prep.blob",
+			assets: {
+				"client/stale.html": "./dist/client/stale.html",
+				"data/keep.json": "./data/keep.json",
+			},
+		})
+	)
+	return dir
+}
+
+test("generateAssets", async t => {
+	await t.test("merges assets under the root", async (t: TestContext) => {
+		const dir = await createProject(t)
+		const result = await generateAssets({
+			dir: path.join(dir, "dist/client"),
+			config: path.join(dir, "sea-config.json"),
+			exclude: ["*.map"],
+		})
+
+		assert.equal(result.config.main, "dist/bundle.js")
+		assert.deepEqual(result.config.assets, {
+			"data/keep.json": "./data/keep.json",
+			"sea-static-manifest.json": "./sea-static-manifest.json",
+			"client/assets/app.js": "./dist/client/assets/app.js",
+			"client/index.html": "./dist/client/index.html",
+			"client/logo.svg": "./dist/client/logo.svg",
+			"client/logo.svg.gz": "./dist/client/logo.svg.gz",
+		})
+	})
+
+	await t.test("describes assets in the manifest", async (t: TestContext) => {
+		const dir = await createProject(t)
+		const result = await generateAssets({
+			dir: path.join(dir, "dist/client"),
+			config: path.join(dir, "sea-config.json"),
+			root: "static",
+			include: ["**/*.{html,svg,gz}"],
+		})
+
+		const { assets } = result.manifest
+		assert.deepEqual(Object.keys(assets), [
+			"static/index.html",
+			"static/logo.svg",
+		])
+		assert.equal(assets["static/index.html"]?.size, 15)
+		assert.equal(assets["static/index.html"]?.type, "text/html; charset=utf-8")
+		assert.match(assets["static/index.html"]?.hash ?? "", /^[\w-]{43}$/)
+		assert.ok(assets["static/index.html"]?.mtime)
+		assert.deepEqual(Object.keys(assets["static/logo.svg"]?.encodings ?? {}), [
+			"gzip",
+		])
+	})
+
+	await t.test("precompresses compressible assets", async (t: TestContext) => {
+		const dir = await createProject(t)
+		const result = await generateAssets({
+			dir: path.join(dir, "dist/client"),
+			config: path.join(dir, "sea-config.json"),
+			precompress: true,
+		})
+
+		const appEntry = result.manifest.assets["client/assets/app.js"]
+		assert.deepEqual(Object.keys(appEntry?.encodings ?? {}), ["br", "gzip"])
+		// Too small to be worth compressing
+		assert.equal(
+			result.manifest.assets["client/index.html"]?.encodings,
+			undefined
+		)
+
+		await writeAssets(result)
+		const gzipped = await readFile(
+			path.join(dir, "dist/client/assets/app.js.gz")
+		)
+		assert.equal(gunzipSync(gzipped).toString(), APP_JS)
+		assert.equal(
+			result.config.assets?.["client/assets/app.js.br"],
+			"./dist/client/assets/app.js.br"
+		)
+	})
+
+	await t.test(
+		"checks whether files are up to date",
+		async (t: TestContext) => {
+			const dir = await createProject(t)
+			const options = {
+				dir: path.join(dir, "dist/client"),
+				config: path.join(dir, "sea-config.json"),
+				precompress: true,
+			}
+
+			const initial = await generateAssets(options)
+			assert.deepEqual((await checkAssets(initial)).sort(), [
+				path.join(dir, "dist/client/assets/app.js.br"),
+				path.join(dir, "dist/client/assets/app.js.gz"),
+				path.join(dir, "sea-config.json"),
+				path.join(dir, "sea-static-manifest.json"),
+			])
+
+			await writeAssets(initial)
+			assert.deepEqual(await checkAssets(await generateAssets(options)), [])
+
+			const manifest = JSON.parse(
+				await readFile(path.join(dir, "sea-static-manifest.json"), "utf8")
+			) as AssetManifest
+			assert.ok(manifest.assets["client/assets/app.js"])
+
+			// Touching a file only changes its mtime
+			const later = new Date(Date.now() + 60_000)
+			await utimes(path.join(dir, "dist/client/assets/app.js"), later, later)
+			assert.deepEqual(await checkAssets(await generateAssets(options)), [])
+
+			// Adding a file makes the generated config stale
+			await writeFile(path.join(dir, "dist/client/new.txt"), "new")
+			assert.deepEqual(await checkAssets(await generateAssets(options)), [
+				path.join(dir, "sea-static-manifest.json"),
+				path.join(dir, "sea-config.json"),
+			])
+		}
+	)
+})
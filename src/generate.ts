@@ -0,0 +1,314 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { createHash } from "node:crypto"
+import { readFile, readdir, stat, writeFile } from "node:fs/promises"
+import path from "node:path"
+import send from "@fastify/send"
+import { compressAsset } from "./compression.js"
+import { getContentType } from "./content-type.js"
+import { PRECOMPRESSED_EXTENSIONS } from "./encoding.js"
+import { matchesGlob } from "./glob.js"
+import {
+	type AssetManifest,
+	type AssetManifestEntry,
+	DEFAULT_MANIFEST_KEY,
+	MANIFEST_VERSION,
+} from "./manifest.js"
+
+/** Encodings written when precompressing, in the order they are generated */
+const PRECOMPRESS_ENCODINGS = ["br", "gzip"] as const
+
+/** Assets smaller than this are not worth precompressing */
+const PRECOMPRESS_THRESHOLD = 1024
+
+/**
+ * The parts of a Node.js sea-config.json this tool reads and writes
+ */
+export interface SeaConfig {
+	assets?: Record<string, string>
+	[key: string]: unknown
+}
+
+/**
+ * Options for generating SEA asset configuration from a build directory
+ */
+export interface GenerateOptions {
+	/** Build directory to walk, e.g. 'dist/client' */
+	dir: string
+	/** Asset key prefix, matching the plugin's root option (default: 'client') */
+	root?: string
+	/** Path of the sea-config.json to update (default: 'sea-config.json') */
+	config?: string
+	/** Asset key of the manifest (default: 'sea-static-manifest.json') */
+	manifestKey?: string
+	/**
+	 * Path to write the manifest to
+	 * (default: 'sea-static-manifest.json' next to the config)
+	 */
+	manifestFile?: string
+	/** Globs of files to include, relative to dir (default: all files) */
+	include?: string[]
+	/** Globs of files to exclude, relative to dir */
+	exclude?: string[]
+	/** Write .br and .gz variants of compressible files (default: false) */
+	precompress?: boolean
+	/** Hash algorithm for manifest content hashes (default: 'sha256') */
+	algorithm?: string
+}
+
+/**
+ * Everything generateAssets would write to disk
+ */
+export interface GenerateResult {
+	/** Path of the sea-config.json */
+	configFile: string
+	/** Updated sea-config.json contents */
+	config: SeaConfig
+	/** Path of the manifest file */
+	manifestFile: string
+	/** Generated manifest */
+	manifest: AssetManifest
+	/** Precompressed variants to write, keyed by file path */
+	variants: Map<string, Buffer>
+}
+
+/**
+ * Walk a build directory and compute the sea-config.json assets and manifest
+ * for it without writing anything
+ */
+export async function generateAssets(
+	options: GenerateOptions
+): Promise<GenerateResult> {
+	const dir = path.resolve(options.dir)
+	const root = (options.root ?? "client").replace(/^\/+|\/+$/g, "")
+	const configFile = path.resolve(options.config ?? "sea-config.json")
+	const configDir = path.dirname(configFile)
+	const manifestKey = options.manifestKey ?? DEFAULT_MANIFEST_KEY
+	const manifestFile = path.resolve(
+		options.manifestFile ?? path.join(configDir, DEFAULT_MANIFEST_KEY)
+	)
+	const algorithm = options.algorithm ?? "sha256"
+
+	const files = (await walk(dir))
+		.map(file => path.relative(dir, file).split(path.sep).join("/"))
+		.filter(
+			relative =>
+				(!options.include?.length || matchesGlob(relative, options.include)) &&
+				!(options.exclude?.length && matchesGlob(relative, options.exclude))
+		)
+		.sort()
+
+	const fileSet = new Set(files)
+	const variantExtensions = Object.entries(PRECOMPRESSED_EXTENSIONS)
+	const variants = new Map<string, Buffer>()
+	const assets: Record<string, AssetManifestEntry> = {}
+
+	// Split files into primary assets and precompressed variants of them
+	const isVariant = (relative: string) =>
+		variantExtensions.some(
+			([, extension]) =>
+				relative.endsWith(extension) &&
+				fileSet.has(relative.slice(0, -extension.length))
+		)
+
+	for (const relative of files) {
+		if (isVariant(relative)) {
+			continue
+		}
+
+		const file = path.join(dir, relative)
+		const [content, stats] = await Promise.all([readFile(file), stat(file)])
+		const type = getContentType(relative)
+		const entry: AssetManifestEntry = {
+			size: content.byteLength,
+			hash: hashContent(content, algorithm),
+			mtime: new Date(Math.floor(stats.mtimeMs / 1000) * 1000).toISOString(),
+			type,
+		}
+
+		// Generate new variants for compressible assets
+		if (
+			options.precompress &&
+			content.byteLength >= PRECOMPRESS_THRESHOLD &&
+			send.isUtf8MimeType(type)
+		) {
+			for (const encoding of PRECOMPRESS_ENCODINGS) {
+				const compressed = await compressAsset(content, encoding)
+				if (compressed.byteLength < content.byteLength) {
+					variants.set(
+						`${file}${PRECOMPRESSED_EXTENSIONS[encoding]}`,
+						compressed
+					)
+				}
+			}
+		}
+
+		// Record variants that already exist or are about to be written
+		for (const [encoding, extension] of variantExtensions) {
+			const variantFile = `${file}${extension}`
+			const variant =
+				variants.get(variantFile) ??
+				(fileSet.has(`${relative}${extension}`)
+					? await readFile(variantFile)
+					: undefined)
+
+			if (variant) {
+				entry.encodings ??= {}
+				entry.encodings[encoding] = {
+					size: variant.byteLength,
+					hash: hashContent(variant, algorithm),
+				}
+			}
+		}
+
+		assets[`${root}/${relative}`] = entry
+	}
+
+	const manifest: AssetManifest = {
+		version: MANIFEST_VERSION,
+		algorithm,
+		assets,
+	}
+
+	// Map every asset and variant key to its file, relative to the config
+	const generatedAssets: Record<string, string> = {
+		[manifestKey]: toConfigPath(configDir, manifestFile),
+	}
+	for (const [key, entry] of Object.entries(assets)) {
+		const file = path.join(dir, key.slice(root.length + 1))
+		generatedAssets[key] = toConfigPath(configDir, file)
+
+		for (const encoding of Object.keys(entry.encodings ?? {})) {
+			const extension = PRECOMPRESSED_EXTENSIONS[encoding]
+			generatedAssets[`${key}${extension}`] = toConfigPath(
+				configDir,
+				`${file}${extension}`
+			)
+		}
+	}
+
+	// Merge with the existing config, replacing entries under the root
+	const existing = await readConfig(configFile)
+	const keptAssets = Object.fromEntries(
+		Object.entries(existing.assets ?? {}).filter(
+			([key]) => key !== manifestKey && !key.startsWith(`${root}/`)
+		)
+	)
+	const config: SeaConfig = {
+		...existing,
+		assets: { ...keptAssets, ...generatedAssets },
+	}
+
+	return { configFile, config, manifestFile, manifest, variants }
+}
+
+/**
+ * Write the generated config, manifest and precompressed variants
+ */
+export async function writeAssets(result: GenerateResult): Promise<void> {
+	for (const [file, content] of result.variants) {
+		await writeFile(file, content)
+	}
+	await writeFile(result.manifestFile, serialize(result.manifest))
+	await writeFile(result.configFile, serialize(result.config))
+}
+
+/**
+ * Compare the generated output with what is on disk.
+ * Returns the paths of files that are missing or out of date. Manifest mtimes
+ * are ignored, since a checkout or touch changes them without changing the
+ * assets.
+ */
+export async function checkAssets(result: GenerateResult): Promise<string[]> {
+	const expected = new Map<string, Buffer>([
+		...result.variants,
+		[result.configFile, Buffer.from(serialize(result.config))],
+	])
+
+	const stale: string[] = []
+	const manifest = await readFile(result.manifestFile, "utf8")
+		.then(source => withoutMtimes(JSON.parse(source) as AssetManifest))
+		.catch(() => undefined)
+	if (
+		manifest === undefined ||
+		serialize(manifest) !== serialize(withoutMtimes(result.manifest))
+	) {
+		stale.push(result.manifestFile)
+	}
+
+	for (const [file, content] of expected) {
+		const current = await readFile(file).catch(() => undefined)
+		if (!current?.equals(content)) {
+			stale.push(file)
+		}
+	}
+	return stale
+}
+
+/**
+ * Copy a manifest with the mtime of every entry removed
+ */
+function withoutMtimes(manifest: AssetManifest): AssetManifest {
+	return {
+		...manifest,
+		assets: Object.fromEntries(
+			Object.entries(manifest.assets ?? {}).map(
+				([key, { mtime, ...entry }]) => [key, entry]
+			)
+		),
+	}
+}
+
+/**
+ * Recursively list the files under a directory
+ */
+async function walk(dir: string): Promise<string[]> {
+	const entries = await readdir(dir, { withFileTypes: true })
+	const files = await Promise.all(
+		entries.map(async entry => {
+			const file = path.join(dir, entry.name)
+			if (entry.isDirectory()) {
+				return walk(file)
+			}
+			return entry.isFile() ? [file] : []
+		})
+	)
+	return files.flat()
+}
+
+/**
+ * Read an existing sea-config.json, or start from an empty one
+ */
+async function readConfig(configFile: string): Promise<SeaConfig> {
+	let source: string
+	try {
+		source = await readFile(configFile, "utf8")
+	} catch {
+		return {}
+	}
+	return JSON.parse(source) as SeaConfig
+}
+
+/**
+ * Hash content the same way the plugin formats ETags
+ */
+function hashContent(content: Buffer, algorithm: string): string {
+	return createHash(algorithm).update(content).digest("base64url")
+}
+
+/**
+ * Format a path relative to the config directory, as sea-config.json expects
+ */
+function toConfigPath(configDir: string, file: string): string {
+	const relative = path.relative(configDir, file).split(path.sep).join("/")
+	return relative.startsWith("../") ? relative : `./${relative}`
+}
+
+/**
+ * Serialize JSON the way it is written to disk
+ */
+function serialize(value: unknown): string {
+	return `${JSON.stringify(value, null, 2)}\n`
+}
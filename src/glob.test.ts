@@ -0,0 +1,38 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { matchesGlob } from "./glob"
+
+test("matchesGlob", async t => {
+	await t.test("matches segments and directories", () => {
+		assert.ok(matchesGlob("assets/app.js", "assets/*.js"))
+		assert.ok(!matchesGlob("assets/nested/app.js", "assets/*.js"))
+		assert.ok(matchesGlob("assets/nested/app.js", "assets/**/*.js"))
+		assert.ok(matchesGlob("assets/app.js", "assets/**/*.js"))
+		assert.ok(matchesGlob("assets/a/b/c", "assets/**"))
+	})
+
+	await t.test("matches basenames for patterns without a slash", () => {
+		assert.ok(matchesGlob("deep/path/app.js.map", "*.map"))
+		assert.ok(matchesGlob("/app.js.map", "*.map"))
+		assert.ok(!matchesGlob("deep/path/app.js", "*.map"))
+	})
+
+	await t.test("supports classes, alternatives and wildcards", () => {
+		assert.ok(matchesGlob("img/logo.png", "**/*.{png,svg}"))
+		assert.ok(matchesGlob("img/logo.svg", "**/*.{png,svg}"))
+		assert.ok(!matchesGlob("img/logo.gif", "**/*.{png,svg}"))
+		assert.ok(matchesGlob("v1.txt", "v[0-9].txt"))
+		assert.ok(!matchesGlob("vx.txt", "v[!a-z].txt"))
+		assert.ok(matchesGlob("a.txt", "?.txt"))
+		assert.ok(!matchesGlob("a+b.txt", "a.b.txt"))
+	})
+
+	await t.test("matches any pattern in a list", () => {
+		assert.ok(matchesGlob("robots.txt", ["*.html", "robots.txt"]))
+		assert.ok(!matchesGlob("robots.txt", []))
+	})
+})
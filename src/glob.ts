@@ -0,0 +1,91 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+// Cache compiled patterns since the same globs are matched on every request
+const globCache = new Map<string, RegExp>()
+
+/**
+ * Convert a glob pattern to a regular expression matching slash separated paths.
+ * Supports `*`, `**`, `?`, `[...]` character classes and `{a,b}` alternatives.
+ * Patterns without a slash match the last path segment, like `.gitignore`.
+ */
+export function globToRegExp(glob: string): RegExp {
+	const cached = globCache.get(glob)
+	if (cached) {
+		return cached
+	}
+
+	const pattern = glob.includes("/") ? glob.replace(/^\/+/, "") : `**/${glob}`
+
+	let source = ""
+	let inGroup = 0
+
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i] as string
+
+		switch (char) {
+			case "*":
+				if (pattern[i + 1] === "*") {
+					// "**/" matches zero or more directories, a trailing "**" anything
+					if (pattern[i + 2] === "/") {
+						source += "(?:.*/)?"
+						i += 2
+					} else {
+						source += ".*"
+						i += 1
+					}
+				} else {
+					source += "[^/]*"
+				}
+				break
+			case "?":
+				source += "[^/]"
+				break
+			case "[": {
+				const end = pattern.indexOf("]", i + 1)
+				if (end === -1) {
+					source += "\\["
+				} else {
+					const body = pattern.slice(i + 1, end).replace(/^!/, "^")
+					source += `[${body.replace(/\\/g, "\\\\")}]`
+					i = end
+				}
+				break
+			}
+			case "{":
+				inGroup++
+				source += "(?:"
+				break
+			case "}":
+				if (inGroup > 0) {
+					inGroup--
+					source += ")"
+				} else {
+					source += "\\}"
+				}
+				break
+			case ",":
+				source += inGroup > 0 ? "|" : ","
+				break
+			default:
+				source += char.replace(/[.+^$()|\\]/g, "\\$&")
+		}
+	}
+
+	const regexp = new RegExp(`^${source}$`)
+	globCache.set(glob, regexp)
+	return regexp
+}
+
+/**
+ * Check if a slash separated path matches any of the glob patterns
+ */
+export function matchesGlob(
+	filepath: string,
+	globs: string | readonly string[]
+): boolean {
+	const normalized = filepath.replace(/^\/+/, "")
+	const patterns = typeof globs === "string" ? [globs] : globs
+	return patterns.some(glob => globToRegExp(glob).test(normalized))
+}
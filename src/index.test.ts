@@ -365,3 +365,39 @@ test("supports custom index files", async t => {
 	assert.equal(response.status, 200)
 	assert.equal(text, TEST_CONTENT.foo)
 })
+
+// 10. Test extensions option
+test("supports extensions option", async t => {
+	const fastify = Fastify()
+	await fastify.register(fastifySeaStatic, {
+		root: "client",
+		extensions: ["html"],
+		extensionRedirect: true,
+		assetProvider: mockAssetProvider,
+	})
+
+	t.after(() => fastify.close())
+	await fastify.listen({ port: 0 })
+	const address = `http://localhost:${(fastify.server.address() as AddressInfo).port}`
+
+	// Clean URL serves foo.html
+	const response = await fetch(`${address}/foo`)
+	assert.equal(response.status, 200)
+	assert.equal(response.headers.get("content-type"), "text/html; charset=utf-8")
+	assert.equal(await response.text(), TEST_CONTENT.foo)
+
+	// The extension redirects to the clean URL, keeping the query string
+	const redirect = await fetch(`${address}/foo.html?lang=en`, {
+		redirect: "manual",
+	})
+	assert.equal(redirect.status, 301)
+	assert.equal(redirect.headers.get("location"), "/foo?lang=en")
+
+	// Other files are unaffected
+	const css = await fetch(`${address}/style.css`)
+	assert.equal(css.status, 200)
+	assert.equal(await css.text(), TEST_CONTENT.css)
+
+	const missing = await fetch(`${address}/missing`)
+	assert.equal(missing.status, 404)
+})
@@ -2,14 +2,95 @@
 // Use of this source code is governed by a BSD-style
 // license that can be found in the LICENSE file.
 
+import {
+	type ArchiveAssetProvider,
+	type ArchiveAssetProviderOptions,
+	type ArchiveFile,
+	createArchiveAssetProvider,
+} from "./archive.js"
+import type {
+	CacheControlDirectives,
+	CacheControlMatcher,
+	CacheControlRule,
+} from "./cache-control.js"
+import { DEFAULT_CSP_POLICY } from "./csp.js"
 import fastifySeaStatic, {
+	type AllowedPath,
+	type AllowedPathResult,
+	type BlockedResponse,
+	type CompressOptions,
+	type CspNonceOptions,
 	type FastifySeaStaticOptions,
+	type FingerprintOptions,
+	type ListOptions,
+	type NetlifyOptions,
+	type SeaAssetProvider,
+	type SpaOptions,
 	type StaticFileOptions,
 } from "./fastify-sea-static.js"
+import {
+	type FsAssetProviderOptions,
+	createFsAssetProvider,
+	createSeaConfigAssetProvider,
+} from "./fs-asset-provider.js"
+import {
+	type GenerateOptions,
+	type GenerateResult,
+	type SeaConfig,
+	checkAssets,
+	generateAssets,
+	writeAssets,
+} from "./generate.js"
+import type { ListEntry } from "./list.js"
+import {
+	type AssetManifest,
+	type AssetManifestEntry,
+	type AssetManifestVariant,
+	DEFAULT_MANIFEST_KEY,
+	MANIFEST_VERSION,
+} from "./manifest.js"
+import type { RewriteRule } from "./rewrite.js"
+import { type TransformOptions, jsonScript } from "./transform.js"
 
 export default fastifySeaStatic
 export {
 	fastifySeaStatic,
+	DEFAULT_CSP_POLICY,
+	DEFAULT_MANIFEST_KEY,
+	MANIFEST_VERSION,
+	checkAssets,
+	createArchiveAssetProvider,
+	createFsAssetProvider,
+	createSeaConfigAssetProvider,
+	generateAssets,
+	jsonScript,
+	writeAssets,
+	type AllowedPath,
+	type AllowedPathResult,
+	type ArchiveAssetProvider,
+	type ArchiveAssetProviderOptions,
+	type ArchiveFile,
+	type AssetManifest,
+	type AssetManifestEntry,
+	type AssetManifestVariant,
+	type BlockedResponse,
+	type CacheControlDirectives,
+	type CacheControlMatcher,
+	type CacheControlRule,
+	type CompressOptions,
+	type CspNonceOptions,
 	type FastifySeaStaticOptions,
+	type FingerprintOptions,
+	type FsAssetProviderOptions,
+	type GenerateOptions,
+	type GenerateResult,
+	type ListEntry,
+	type ListOptions,
+	type NetlifyOptions,
+	type RewriteRule,
+	type SeaAssetProvider,
+	type SeaConfig,
+	type SpaOptions,
 	type StaticFileOptions,
+	type TransformOptions,
 }
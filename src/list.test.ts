@@ -0,0 +1,160 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import assert from "node:assert/strict"
+import { type TestContext, test } from "node:test"
+import type { FastifySeaStaticOptions } from "./fastify-sea-static"
+import { listDirectory } from "./list"
+import {
+	createTestAssetProvider,
+	createTestServer,
+	listen,
+} from "./test-helpers"
+
+const TEST_ASSETS: Record<string, string> = {
+	"client/index.html": "<html>Home</html>",
+	"client/reports/2025-01.txt": "January",
+	"client/reports/2025-02.txt": "February",
+	"client/reports/2025-02.txt.gz": "compressed",
+	"client/reports/.draft.txt": "Draft",
+	"client/reports/internal/notes.txt": "Notes",
+	"client/reports/archive/2024.txt": "2024",
+	"client/empty/.keep": "",
+}
+
+async function createServer(
+	t: TestContext,
+	opts: FastifySeaStaticOptions = {},
+	listable = true
+) {
+	const fastify = await createTestServer(t, {
+		assetProvider: createTestAssetProvider(TEST_ASSETS, { listable }),
+		...opts,
+	})
+
+	return listen(fastify)
+}
+
+test("listDirectory", () => {
+	const keys = Object.keys(TEST_ASSETS)
+
+	assert.deepEqual(listDirectory(keys, "client/reports"), {
+		dirs: [
+			{ name: "archive", href: "archive/" },
+			{ name: "internal", href: "internal/" },
+		],
+		files: [
+			{ name: ".draft.txt", href: ".draft.txt" },
+			{ name: "2025-01.txt", href: "2025-01.txt" },
+			{ name: "2025-02.txt", href: "2025-02.txt" },
+		],
+	})
+	assert.deepEqual(
+		listDirectory(keys, "client/")?.dirs.map(dir => dir.name),
+		["empty", "reports"]
+	)
+	assert.equal(listDirectory(keys, "client/missing"), undefined)
+})
+
+test("directory listing", async t => {
+	await t.test("renders HTML by default", async (t: TestContext) => {
+		const address = await createServer(t, { list: true })
+
+		const response = await fetch(`${address}/reports/`)
+		assert.equal(response.status, 200)
+		assert.equal(
+			response.headers.get("content-type"),
+			"text/html; charset=utf-8"
+		)
+		const html = await response.text()
+		assert.match(html, /<title>Index of \/reports\/<\/title>/)
+		assert.match(html, /<a href="archive\/">archive\/<\/a>/)
+		assert.match(html, /<a href="2025-01.txt">2025-01.txt<\/a>/)
+		assert.doesNotMatch(html, /2025-02.txt.gz/)
+
+		// Directories with an index file are still served normally
+		const index = await fetch(`${address}/`)
+		assert.equal(await index.text(), "<html>Home</html>")
+	})
+
+	await t.test("renders JSON", async (t: TestContext) => {
+		const address = await createServer(t, { list: { format: "json" } })
+
+		const response = await fetch(`${address}/reports/`)
+		assert.deepEqual(await response.json(), {
+			dirs: ["archive", "internal"],
+			files: [".draft.txt", "2025-01.txt", "2025-02.txt"],
+		})
+
+		const html = await fetch(`${address}/reports/archive/?format=html`)
+		assert.match(await html.text(), /2024.txt/)
+	})
+
+	await t.test("respects dotfiles and allowedPath", async (t: TestContext) => {
+		const address = await createServer(t, {
+			list: { format: "json" },
+			dotfiles: "ignore",
+			allowedPath: pathName => !pathName.startsWith("reports/internal/"),
+		})
+
+		const response = await fetch(`${address}/reports/`)
+		assert.deepEqual(await response.json(), {
+			dirs: ["archive"],
+			files: ["2025-01.txt", "2025-02.txt"],
+		})
+	})
+
+	await t.test("supports a custom renderer", async (t: TestContext) => {
+		const address = await createServer(t, {
+			list: {
+				render: (dirs, files) =>
+					`${dirs.length} dirs, ${files.map(file => file.name).join(" ")}`,
+			},
+			dotfiles: "deny",
+		})
+
+		const response = await fetch(`${address}/reports/`)
+		assert.equal(await response.text(), "2 dirs, 2025-01.txt 2025-02.txt")
+	})
+
+	await t.test("uses the manifest when present", async (t: TestContext) => {
+		const address = await createServer(
+			t,
+			{
+				list: { format: "json" },
+				manifest: {
+					version: 1,
+					assets: { "client/reports/2025-01.txt": { size: 7 } },
+				},
+			},
+			false
+		)
+
+		const response = await fetch(`${address}/reports/`)
+		assert.deepEqual(await response.json(), {
+			dirs: [],
+			files: ["2025-01.txt"],
+		})
+	})
+
+	await t.test(
+		"is not found without list or a key source",
+		async (t: TestContext) => {
+			const disabled = await createServer(t)
+			const disabledResponse = await fetch(`${disabled}/reports/`)
+			assert.equal(disabledResponse.status, 404)
+			await disabledResponse.text()
+
+			const unlistable = await createServer(t, { list: true }, false)
+			const unlistableResponse = await fetch(`${unlistable}/reports/`)
+			assert.equal(unlistableResponse.status, 404)
+			await unlistableResponse.text()
+
+			const missing = await createServer(t, { list: true })
+			const missingResponse = await fetch(`${missing}/missing/`)
+			assert.equal(missingResponse.status, 404)
+			await missingResponse.text()
+		}
+	)
+})
@@ -0,0 +1,119 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { PRECOMPRESSED_EXTENSIONS } from "./encoding.js"
+
+/**
+ * An entry in a directory listing
+ */
+export interface ListEntry {
+	/** Entry name, without a trailing slash for directories */
+	name: string
+	/** Link to the entry relative to the listed directory */
+	href: string
+}
+
+/**
+ * Immediate subdirectories and files of a directory
+ */
+export interface DirectoryListing {
+	dirs: ListEntry[]
+	files: ListEntry[]
+}
+
+/**
+ * List the entries directly under a directory from a flat list of asset keys.
+ * Returns undefined when no key lives under the directory. Precompressed
+ * variants of listed files are left out.
+ */
+export function listDirectory(
+	keys: Iterable<string>,
+	directory: string
+): DirectoryListing | undefined {
+	const dirPrefix = directory ? `${directory.replace(/\/+$/, "")}/` : ""
+	const dirNames = new Set<string>()
+	const fileNames = new Set<string>()
+	let found = false
+
+	for (const key of keys) {
+		if (!key.startsWith(dirPrefix)) {
+			continue
+		}
+		found = true
+
+		const rest = key.slice(dirPrefix.length)
+		const slash = rest.indexOf("/")
+		if (slash === -1) {
+			fileNames.add(rest)
+		} else {
+			dirNames.add(rest.slice(0, slash))
+		}
+	}
+
+	if (!found) {
+		return undefined
+	}
+
+	const isVariant = (name: string) =>
+		Object.values(PRECOMPRESSED_EXTENSIONS).some(
+			extension =>
+				name.endsWith(extension) &&
+				fileNames.has(name.slice(0, -extension.length))
+		)
+
+	return {
+		dirs: [...dirNames]
+			.sort()
+			.map(name => ({ name, href: `${encodeURIComponent(name)}/` })),
+		files: [...fileNames]
+			.filter(name => !isVariant(name))
+			.sort()
+			.map(name => ({ name, href: encodeURIComponent(name) })),
+	}
+}
+
+/**
+ * Render a directory listing as a minimal HTML page
+ */
+export function renderListing(
+	urlPath: string,
+	dirs: ListEntry[],
+	files: ListEntry[]
+): string {
+	const items = [
+		...(urlPath === "/" ? [] : [{ name: "..", href: "../" }]),
+		...dirs.map(dir => ({ name: `${dir.name}/`, href: dir.href })),
+		...files,
+	]
+		.map(
+			item =>
+				`<li><a href="${escapeHtml(item.href)}">${escapeHtml(item.name)}</a></li>`
+		)
+		.join("\n")
+
+	const title = `Index of ${escapeHtml(urlPath)}`
+	return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${title}</title></head>
+<body>
+<h1>${title}</h1>
+<ul>
+${items}
+</ul>
+</body>
+</html>
+`
+}
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&#39;")
+}
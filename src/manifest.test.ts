@@ -0,0 +1,187 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import assert from "node:assert/strict"
+import { type TestContext, test } from "node:test"
+import { gzipSync } from "node:zlib"
+import Fastify from "fastify"
+import fastifySeaStatic, {
+	type FastifySeaStaticOptions,
+} from "./fastify-sea-static"
+import { type AssetManifest, DEFAULT_MANIFEST_KEY } from "./manifest"
+import {
+	createTestAssetProvider,
+	createTestServer,
+	listen,
+} from "./test-helpers"
+
+const MANIFEST: AssetManifest = {
+	version: 1,
+	algorithm: "sha256",
+	assets: {
+		"client/index.html": {
+			size: 16,
+			hash: "index-hash",
+			mtime: "2025-03-01T12:00:00Z",
+		},
+		"client/app.js": {
+			size: 18,
+			hash: "app-hash",
+			mtime: "2025-03-02T12:00:00Z",
+			encodings: { gzip: { size: 38, hash: "app-gzip-hash" } },
+		},
+		"client/data.bin": {
+			size: 4,
+			type: "application/x-custom",
+		},
+		"client/docs/index.html": { size: 17 },
+	},
+}
+
+const TEST_ASSETS: Record<string, Buffer> = {
+	[DEFAULT_MANIFEST_KEY]: Buffer.from(JSON.stringify(MANIFEST)),
+	"client/index.html": Buffer.from("<html>Home</html>"),
+	"client/app.js": Buffer.from("console.log('app')"),
+	"client/app.js.gz": gzipSync("console.log('app')"),
+	"client/data.bin": Buffer.from([1, 2, 3, 4]),
+	"client/docs/index.html": Buffer.from("<html>Docs</html>"),
+	// Present in the bundle but deliberately left out of the manifest
+	"client/app.js.br": Buffer.from("unlisted"),
+}
+
+// Track every key the plugin reads
+const requestedKeys: string[] = []
+
+const assetProvider = createTestAssetProvider(TEST_ASSETS, {
+	onRead: key => requestedKeys.push(key),
+})
+
+async function createServer(
+	t: TestContext,
+	opts: FastifySeaStaticOptions = {}
+) {
+	const fastify = await createTestServer(t, {
+		assetProvider,
+		...opts,
+	})
+
+	return listen(fastify)
+}
+
+test("asset manifest", async t => {
+	await t.test(
+		"supplies ETag, Last-Modified and type",
+		async (t: TestContext) => {
+			const address = await createServer(t)
+
+			const htmlResponse = await fetch(`${address}/index.html`)
+			assert.equal(htmlResponse.status, 200)
+			assert.equal(htmlResponse.headers.get("etag"), '"index-hash"')
+			assert.equal(
+				htmlResponse.headers.get("last-modified"),
+				"Sat, 01 Mar 2025 12:00:00 GMT"
+			)
+			assert.equal(await htmlResponse.text(), "<html>Home</html>")
+
+			const binResponse = await fetch(`${address}/data.bin`)
+			assert.equal(
+				binResponse.headers.get("content-type"),
+				"application/x-custom"
+			)
+			await binResponse.arrayBuffer()
+		}
+	)
+
+	await t.test(
+		"answers existence checks without reading",
+		async (t: TestContext) => {
+			const address = await createServer(t)
+			requestedKeys.length = 0
+
+			const missing = await fetch(`${address}/missing.html`)
+			assert.equal(missing.status, 404)
+			await missing.text()
+			assert.deepEqual(requestedKeys, [])
+
+			const dirResponse = await fetch(`${address}/docs/`)
+			assert.equal(dirResponse.status, 200)
+			assert.equal(await dirResponse.text(), "<html>Docs</html>")
+			assert.deepEqual(requestedKeys, ["client/docs/index.html"])
+		}
+	)
+
+	await t.test("lists precompressed variants", async (t: TestContext) => {
+		const address = await createServer(t, { preCompressed: true })
+		requestedKeys.length = 0
+
+		const response = await fetch(`${address}/app.js`, {
+			headers: { "accept-encoding": "br, gzip" },
+		})
+		assert.equal(response.headers.get("content-encoding"), "gzip")
+		assert.equal(response.headers.get("etag"), '"app-gzip-hash"')
+		assert.equal(await response.text(), "console.log('app')")
+		assert.deepEqual(requestedKeys, ["client/app.js.gz"])
+	})
+
+	await t.test("can be passed directly or disabled", async (t: TestContext) => {
+		const inline = await createServer(t, {
+			manifest: {
+				version: 1,
+				assets: { "client/index.html": { size: 16, hash: "inline" } },
+			},
+		})
+		const inlineResponse = await fetch(`${inline}/index.html`)
+		assert.equal(inlineResponse.headers.get("etag"), '"inline"')
+		await inlineResponse.text()
+
+		const disabled = await createServer(t, { manifest: false })
+		const disabledResponse = await fetch(`${disabled}/index.html`)
+		assert.notEqual(disabledResponse.headers.get("etag"), '"index-hash"')
+		await disabledResponse.text()
+	})
+
+	await t.test("rejects missing or invalid manifests", async () => {
+		const missing = Fastify()
+		missing.register(fastifySeaStatic, {
+			assetProvider,
+			manifest: "missing.json",
+		})
+		await assert.rejects(
+			async () => missing.ready(),
+			/Asset manifest not found: missing.json/
+		)
+
+		const invalid = Fastify()
+		invalid.register(fastifySeaStatic, {
+			assetProvider,
+			manifest: "client/app.js",
+		})
+		await assert.rejects(
+			async () => invalid.ready(),
+			/Asset manifest is not valid JSON/
+		)
+
+		const wrongShape = Fastify()
+		wrongShape.register(fastifySeaStatic, {
+			assetProvider,
+			manifest: { version: 2 } as unknown as AssetManifest,
+		})
+		await assert.rejects(
+			async () => wrongShape.ready(),
+			/Invalid asset manifest/
+		)
+	})
+
+	await t.test(
+		"registers outside a SEA without a provider",
+		async (t: TestContext) => {
+			const fastify = Fastify()
+			await fastify.register(fastifySeaStatic, { root: "client" })
+			t.after(() => fastify.close())
+
+			const response = await fastify.inject("/index.html")
+			assert.equal(response.statusCode, 404)
+		}
+	)
+})
@@ -0,0 +1,115 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import type { SeaAssetProvider } from "./fastify-sea-static.js"
+
+/** Asset key the plugin looks for when no manifest option is given */
+export const DEFAULT_MANIFEST_KEY = "sea-static-manifest.json"
+
+/** Current manifest format version */
+export const MANIFEST_VERSION = 1
+
+/**
+ * A compressed variant of an asset, stored under the asset key plus the
+ * extension for its encoding (e.g. `client/app.js.br`)
+ */
+export interface AssetManifestVariant {
+	/** Size of the compressed asset in bytes */
+	size: number
+	/** Content hash of the compressed asset */
+	hash?: string
+}
+
+/**
+ * Metadata for a single bundled asset
+ */
+export interface AssetManifestEntry {
+	/** Size of the asset in bytes */
+	size: number
+	/** Content hash of the asset, used as its ETag */
+	hash?: string
+	/** Modification time as an ISO date string or epoch milliseconds */
+	mtime?: string | number
+	/** Content-Type to serve the asset with */
+	type?: string
+	/** Available precompressed variants, keyed by content coding */
+	encodings?: Record<string, AssetManifestVariant>
+}
+
+/**
+ * An asset manifest, stored as a JSON SEA asset next to the assets it lists
+ */
+export interface AssetManifest {
+	version: typeof MANIFEST_VERSION
+	/** Hash algorithm used for the hash fields (e.g. 'sha256') */
+	algorithm?: string
+	/** Entries keyed by full asset key (e.g. 'client/index.html') */
+	assets: Record<string, AssetManifestEntry>
+}
+
+/**
+ * Load the asset manifest. A missing manifest under the default key is not
+ * an error; a missing manifest under an explicit key or an invalid one is.
+ */
+export function loadManifest(
+	provider: SeaAssetProvider,
+	manifest: string | AssetManifest | false | undefined
+): AssetManifest | undefined {
+	if (manifest === false) {
+		return undefined
+	}
+	if (typeof manifest === "object") {
+		return validateManifest(manifest, "manifest option")
+	}
+
+	const key = manifest ?? DEFAULT_MANIFEST_KEY
+	let source: string
+	try {
+		source = provider.getAsset(key, "utf8") as string
+	} catch (err) {
+		if (manifest === undefined) {
+			return undefined
+		}
+		throw new Error(`Asset manifest not found: ${key}`, { cause: err })
+	}
+
+	let parsed: unknown
+	try {
+		parsed = JSON.parse(source)
+	} catch (err) {
+		throw new Error(`Asset manifest is not valid JSON: ${key}`, {
+			cause: err,
+		})
+	}
+
+	return validateManifest(parsed, key)
+}
+
+/**
+ * Check the shape of a parsed manifest
+ */
+function validateManifest(value: unknown, source: string): AssetManifest {
+	const manifest = value as Partial<AssetManifest> | null
+	if (
+		!manifest ||
+		typeof manifest !== "object" ||
+		manifest.version !== MANIFEST_VERSION ||
+		!manifest.assets ||
+		typeof manifest.assets !== "object"
+	) {
+		throw new Error(
+			`Invalid asset manifest (${source}): expected version ${MANIFEST_VERSION} with an assets object`
+		)
+	}
+
+	for (const [key, entry] of Object.entries(manifest.assets)) {
+		if (!entry || typeof entry.size !== "number") {
+			throw new Error(
+				`Invalid asset manifest (${source}): entry for ${key} has no size`
+			)
+		}
+	}
+
+	return manifest as AssetManifest
+}
@@ -0,0 +1,194 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import assert from "node:assert/strict"
+import { type TestContext, test } from "node:test"
+import type { FastifySeaStaticOptions } from "./fastify-sea-static"
+import {
+	matchHeaders,
+	matchRedirect,
+	parseHeaders,
+	parseRedirects,
+} from "./netlify"
+import { createTestAssetProvider, createTestServer } from "./test-helpers"
+
+const REDIRECTS = `# Moved pages
+/old-page        /new-page
+/blog/:year/:slug /posts/:year-:slug 302
+/docs/*          /guide/:splat
+/legacy/*        /app.html 200
+/app.html        /home 301!
+/missing/*       /404.html 404
+/store id=:id    /products/:id 301
+/proxy/*         https://api.example.com/:splat 200
+`
+
+const HEADERS = `/*
+  X-Frame-Options: DENY
+  Link: </style.css>; rel=preload
+
+# Bundled assets are content-hashed
+/assets/*
+  Cache-Control: public, max-age=31536000, immutable
+  Link: </font.woff2>; rel=preload
+`
+
+const TEST_ASSETS: Record<string, string> = {
+	"client/_redirects": REDIRECTS,
+	"client/_headers": HEADERS,
+	"client/index.html": "<html>Home</html>",
+	"client/app.html": "<html>App</html>",
+	"client/404.html": "<html>Not Found</html>",
+	"client/old-page": "Old page",
+	"client/assets/app.js": "console.log('app')",
+}
+
+const assetProvider = createTestAssetProvider(TEST_ASSETS)
+
+async function createServer(
+	t: TestContext,
+	opts: FastifySeaStaticOptions = {}
+) {
+	const fastify = await createTestServer(t, {
+		netlify: true,
+		assetProvider,
+		...opts,
+	})
+	return fastify
+}
+
+test("parseRedirects", () => {
+	const rules = parseRedirects(REDIRECTS)
+
+	assert.deepEqual(rules[0], {
+		from: "/old-page",
+		to: "/new-page",
+		status: 301,
+		force: false,
+	})
+	assert.deepEqual(rules[4], {
+		from: "/app.html",
+		to: "/home",
+		status: 301,
+		force: true,
+	})
+	// The query parameter condition is skipped
+	assert.equal(rules.length, 7)
+	assert.deepEqual(parseRedirects("/a/:id/:id /b\n/c /d 30x"), [])
+})
+
+test("matchRedirect", () => {
+	const rules = parseRedirects(REDIRECTS)
+
+	assert.equal(
+		matchRedirect(rules, "/blog/2025/hello")?.location,
+		"/posts/2025-hello"
+	)
+	assert.equal(
+		matchRedirect(rules, "/docs/setup/install")?.location,
+		"/guide/setup/install"
+	)
+	assert.equal(matchRedirect(rules, "/old-page/")?.location, "/new-page")
+	assert.equal(matchRedirect(rules, "/blog/2025"), undefined)
+})
+
+test("parseHeaders and matchHeaders", () => {
+	const rules = parseHeaders(HEADERS)
+
+	assert.deepEqual(
+		rules.map(rule => rule.path),
+		["/*", "/assets/*"]
+	)
+	assert.deepEqual(Object.fromEntries(matchHeaders(rules, "/assets/app.js")), {
+		"x-frame-options": "DENY",
+		link: "</style.css>; rel=preload, </font.woff2>; rel=preload",
+		"cache-control": "public, max-age=31536000, immutable",
+	})
+	assert.deepEqual(
+		[...matchHeaders(rules, "/").keys()],
+		["x-frame-options", "link"]
+	)
+})
+
+test("_redirects and _headers files", async t => {
+	await t.test("redirects with placeholders", async (t: TestContext) => {
+		const fastify = await createServer(t)
+
+		const response = await fastify.inject("/blog/2025/hello?ref=feed")
+		assert.equal(response.statusCode, 302)
+		assert.equal(response.headers.location, "/posts/2025-hello?ref=feed")
+
+		const moved = await fastify.inject("/docs/setup")
+		assert.equal(moved.statusCode, 301)
+		assert.equal(moved.headers.location, "/guide/setup")
+	})
+
+	await t.test("lets assets shadow unforced rules", async (t: TestContext) => {
+		const fastify = await createServer(t)
+
+		const shadowed = await fastify.inject("/old-page")
+		assert.equal(shadowed.statusCode, 200)
+		assert.equal(shadowed.body, "Old page")
+
+		const forced = await fastify.inject("/app.html")
+		assert.equal(forced.statusCode, 301)
+		assert.equal(forced.headers.location, "/home")
+	})
+
+	await t.test(
+		"rewrites and serves custom statuses",
+		async (t: TestContext) => {
+			const fastify = await createServer(t)
+
+			const rewritten = await fastify.inject("/legacy/reports/1")
+			assert.equal(rewritten.statusCode, 200)
+			assert.equal(rewritten.body, "<html>App</html>")
+
+			const missing = await fastify.inject("/missing/page")
+			assert.equal(missing.statusCode, 404)
+			assert.equal(missing.body, "<html>Not Found</html>")
+			assert.equal(missing.headers["content-type"], "text/html; charset=utf-8")
+		}
+	)
+
+	await t.test("runs rewrites through allowedPath", async (t: TestContext) => {
+		const fastify = await createServer(t, {
+			allowedPath: pathName => pathName !== "app.html",
+		})
+
+		const response = await fastify.inject("/legacy/reports/1")
+		assert.equal(response.statusCode, 404)
+	})
+
+	await t.test("adds headers from _headers", async (t: TestContext) => {
+		const fastify = await createServer(t)
+
+		const response = await fastify.inject("/assets/app.js")
+		assert.equal(response.statusCode, 200)
+		assert.equal(response.headers["x-frame-options"], "DENY")
+		assert.equal(
+			response.headers["cache-control"],
+			"public, max-age=31536000, immutable"
+		)
+	})
+
+	await t.test("never serves the rules files", async (t: TestContext) => {
+		const fastify = await createServer(t)
+		fastify.get("/rules", (_req, reply) => reply.sendFile("_redirects"))
+
+		assert.equal((await fastify.inject("/_redirects")).statusCode, 404)
+		assert.equal((await fastify.inject("/_headers")).statusCode, 404)
+		assert.equal((await fastify.inject("//_redirects")).statusCode, 404)
+		assert.equal((await fastify.inject("//_headers")).statusCode, 404)
+		assert.equal((await fastify.inject("/rules")).statusCode, 404)
+	})
+
+	await t.test("can be turned off", async (t: TestContext) => {
+		const fastify = await createServer(t, { netlify: false })
+
+		const response = await fastify.inject("/docs/setup")
+		assert.equal(response.statusCode, 404)
+		assert.equal((await fastify.inject("/_redirects")).body, REDIRECTS)
+	})
+})
@@ -0,0 +1,158 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {
+	compilePathPattern,
+	fillPlaceholders,
+	isValidPathPattern,
+} from "./path-pattern.js"
+
+/**
+ * A rule from a Netlify-style `_redirects` file
+ */
+export interface RedirectRule {
+	/** Path pattern with `*` splats and `:name` placeholders */
+	from: string
+	/** Destination path or URL, which may use `:splat` and `:name` */
+	to: string
+	/** 3xx redirects, 200 rewrites or 4xx responses with the `to` asset */
+	status: number
+	/** Apply the rule even when an asset exists at the path (`301!`) */
+	force: boolean
+}
+
+/**
+ * A path pattern and its headers from a Netlify-style `_headers` file
+ */
+export interface HeaderRule {
+	/** Path pattern with `*` splats and `:name` placeholders */
+	path: string
+	/** Header names and values, in file order */
+	headers: [string, string][]
+}
+
+/**
+ * The first redirect rule matching a path, with placeholders filled in
+ */
+export interface RedirectMatch {
+	rule: RedirectRule
+	/** Destination with `:splat` and `:name` replaced */
+	location: string
+}
+
+/**
+ * Parse a `_redirects` file: one `from to [status][!]` rule per line, with
+ * `#` comments. Rules with query parameter or country conditions aren't
+ * supported and are skipped.
+ */
+export function parseRedirects(text: string): RedirectRule[] {
+	const rules: RedirectRule[] = []
+
+	for (const line of text.split(/\r?\n/)) {
+		const tokens = stripComment(line).split(/\s+/).filter(Boolean)
+		const [from, to, statusToken, ...rest] = tokens
+		if (!from || !to || to.includes("=") || rest.length > 0) {
+			continue
+		}
+
+		const status = statusToken?.match(/^(\d{3})(!?)$/)
+		if ((statusToken && !status) || !isValidPathPattern(from)) {
+			continue
+		}
+
+		rules.push({
+			from,
+			to,
+			status: status ? Number(status[1]) : 301,
+			force: status?.[2] === "!",
+		})
+	}
+
+	return rules
+}
+
+/**
+ * Parse a `_headers` file: unindented path lines, each followed by indented
+ * `Name: value` lines, with `#` comments
+ */
+export function parseHeaders(text: string): HeaderRule[] {
+	const rules: HeaderRule[] = []
+	let current: HeaderRule | undefined
+
+	for (const line of text.split(/\r?\n/)) {
+		const content = stripComment(line).trim()
+		if (!content) {
+			continue
+		}
+
+		if (!/^\s/.test(line)) {
+			current = isValidPathPattern(content)
+				? { path: content, headers: [] }
+				: undefined
+			if (current) {
+				rules.push(current)
+			}
+			continue
+		}
+
+		const colon = content.indexOf(":")
+		if (current && colon > 0) {
+			current.headers.push([
+				content.slice(0, colon).trim().toLowerCase(),
+				content.slice(colon + 1).trim(),
+			])
+		}
+	}
+
+	return rules
+}
+
+/**
+ * Find the first redirect rule matching a URL path
+ */
+export function matchRedirect(
+	rules: readonly RedirectRule[],
+	urlPath: string
+): RedirectMatch | undefined {
+	for (const rule of rules) {
+		const match = compilePathPattern(rule.from).exec(urlPath)
+		if (match) {
+			return { rule, location: fillPlaceholders(rule.to, match.groups ?? {}) }
+		}
+	}
+	return undefined
+}
+
+/**
+ * Collect the headers of every rule matching a URL path. Values for a header
+ * set by several rules are joined with commas.
+ */
+export function matchHeaders(
+	rules: readonly HeaderRule[],
+	urlPath: string
+): Map<string, string> {
+	const headers = new Map<string, string>()
+
+	for (const rule of rules) {
+		if (!compilePathPattern(rule.path).test(urlPath)) {
+			continue
+		}
+		for (const [name, value] of rule.headers) {
+			const existing = headers.get(name)
+			headers.set(
+				name,
+				existing === undefined ? value : `${existing}, ${value}`
+			)
+		}
+	}
+
+	return headers
+}
+
+/**
+ * Remove a `#` comment from a line
+ */
+function stripComment(line: string): string {
+	return line.trimStart().startsWith("#") ? "" : line
+}
@@ -0,0 +1,69 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+// Compiled path patterns, since the same rules are matched on every request
+const patternCache = new Map<string, RegExp>()
+
+/**
+ * Convert a path pattern to a regular expression. `*` matches anything and
+ * the first one is captured as the splat; `:name` matches one segment. A
+ * trailing slash is optional, like on static hosts.
+ */
+export function compilePathPattern(pattern: string): RegExp {
+	const cached = patternCache.get(pattern)
+	if (cached) {
+		return cached
+	}
+
+	let splat = false
+	const source = pattern
+		.replace(/\/+$/, "")
+		.split("/")
+		.map(segment => {
+			if (/^:[A-Za-z_]\w*$/.test(segment)) {
+				return `(?<${segment.slice(1)}>[^/]+)`
+			}
+			return segment
+				.split("*")
+				.map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+				.join("\0")
+				.replace(/\0/g, () => {
+					if (splat) {
+						return ".*"
+					}
+					splat = true
+					return "(?<splat>.*)"
+				})
+		})
+		.join("/")
+
+	const regexp = new RegExp(`^${source}/?$`)
+	patternCache.set(pattern, regexp)
+	return regexp
+}
+
+/**
+ * Check that a path pattern compiles, e.g. has no repeated placeholder
+ */
+export function isValidPathPattern(pattern: string): boolean {
+	try {
+		compilePathPattern(pattern)
+		return true
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Replace `:splat` and `:name` in a destination with the captured values
+ */
+export function fillPlaceholders(
+	destination: string,
+	groups: Record<string, string | undefined>
+): string {
+	return destination.replace(
+		/:([A-Za-z_]\w*)/g,
+		(placeholder, name: string) => groups[name] ?? placeholder
+	)
+}
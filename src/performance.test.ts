@@ -2,6 +2,7 @@
 // Use of this source code is governed by a BSD-style
 // license that can be found in the LICENSE file.
 
+import { statSync } from "node:fs"
 import type { AddressInfo } from "node:net"
 // performance.test.ts
 import { type TestContext, test } from "node:test"
@@ -187,3 +188,174 @@ test("disabling cache features", async t => {
 		t.assert.deepStrictEqual(response.headers.get("last-modified"), null)
 	})
 })
+
+test("stable Last-Modified", async t => {
+	t.plan(3)
+
+	await t.test("defaults to the executable mtime", async (t: TestContext) => {
+		t.plan(2)
+
+		const fastify = Fastify()
+		fastify.register(fastifySeaStatic, {
+			root: "client",
+			assetProvider: mockAssetProvider,
+		})
+
+		t.after(() => fastify.close())
+		await fastify.listen({ port: 0 })
+		const port = (fastify.server.address() as AddressInfo).port
+
+		const response1 = await fetch(`http://localhost:${port}/test.html`)
+		await response1.text()
+		const response2 = await fetch(`http://localhost:${port}/test.html`)
+		await response2.text()
+
+		t.assert.deepStrictEqual(
+			response1.headers.get("last-modified"),
+			statSync(process.execPath).mtime.toUTCString()
+		)
+		t.assert.deepStrictEqual(
+			response1.headers.get("last-modified"),
+			response2.headers.get("last-modified")
+		)
+	})
+
+	await t.test("uses buildTime", async (t: TestContext) => {
+		t.plan(2)
+
+		const fastify = Fastify()
+		fastify.register(fastifySeaStatic, {
+			root: "client",
+			assetProvider: mockAssetProvider,
+			buildTime: "2025-01-01T00:00:00Z",
+			etag: false,
+		})
+
+		t.after(() => fastify.close())
+		await fastify.listen({ port: 0 })
+		const port = (fastify.server.address() as AddressInfo).port
+
+		const response = await fetch(`http://localhost:${port}/test.html`)
+		await response.text()
+		t.assert.deepStrictEqual(
+			response.headers.get("last-modified"),
+			"Wed, 01 Jan 2025 00:00:00 GMT"
+		)
+
+		// The stable date can now be used for revalidation
+		const conditional = await fetch(`http://localhost:${port}/test.html`, {
+			headers: {
+				"If-Modified-Since": "Wed, 01 Jan 2025 00:00:00 GMT",
+			},
+		})
+		t.assert.deepStrictEqual(conditional.status, 304)
+	})
+
+	await t.test("prefers per-asset times", async (t: TestContext) => {
+		t.plan(1)
+
+		const fastify = Fastify()
+		fastify.register(fastifySeaStatic, {
+			root: "client",
+			assetProvider: mockAssetProvider,
+			buildTime: "2025-01-01T00:00:00Z",
+			lastModifiedMap: {
+				"client/test.html": new Date("2025-02-03T04:05:06Z"),
+			},
+		})
+
+		t.after(() => fastify.close())
+		await fastify.listen({ port: 0 })
+		const port = (fastify.server.address() as AddressInfo).port
+
+		const response = await fetch(`http://localhost:${port}/test.html`)
+		await response.text()
+		t.assert.deepStrictEqual(
+			response.headers.get("last-modified"),
+			"Mon, 03 Feb 2025 04:05:06 GMT"
+		)
+	})
+})
+
+test("asset reads", async t => {
+	t.plan(2)
+
+	// Count lookups and successful reads through each provider method
+	function createCountingProvider(isSea: boolean) {
+		const reads = { getAsset: 0, getRawAsset: 0, lookups: 0 }
+		const provider: SeaAssetProvider = {
+			isSea: () => isSea,
+			getAsset: (key: string, encoding?: string) => {
+				reads.lookups++
+				const content = mockAssetProvider.getAsset(key, encoding)
+				reads.getAsset++
+				return content
+			},
+			getRawAsset: (key: string): ArrayBuffer => {
+				reads.lookups++
+				const content = mockAssetProvider.getAsset(key) as ArrayBuffer
+				reads.getRawAsset++
+				return content
+			},
+		}
+		return { provider, reads }
+	}
+
+	await t.test(
+		"reads each asset once via getRawAsset",
+		async (t: TestContext) => {
+			t.plan(6)
+
+			const { provider, reads } = createCountingProvider(true)
+			const fastify = Fastify()
+			fastify.register(fastifySeaStatic, {
+				root: "client",
+				assetProvider: provider,
+				index: "test.html",
+				manifest: false,
+			})
+
+			t.after(() => fastify.close())
+			await fastify.listen({ port: 0 })
+			const port = (fastify.server.address() as AddressInfo).port
+
+			for (let i = 0; i < 3; i++) {
+				const response = await fetch(`http://localhost:${port}/`)
+				await response.text()
+			}
+			const response = await fetch(`http://localhost:${port}/test.html`)
+
+			t.assert.strictEqual(response.status, 200)
+			t.assert.strictEqual(response.headers.get("content-length"), "17")
+			t.assert.strictEqual(await response.text(), "<html>Test</html>")
+			t.assert.strictEqual(reads.getRawAsset, 1)
+			t.assert.strictEqual(reads.getAsset, 0)
+			// "/" probes client, then client/test.html, and both are memoized
+			t.assert.strictEqual(reads.lookups, 2)
+		}
+	)
+
+	await t.test("re-reads assets outside a SEA", async (t: TestContext) => {
+		t.plan(1)
+
+		const { provider, reads } = createCountingProvider(false)
+		const fastify = Fastify()
+		fastify.register(fastifySeaStatic, {
+			root: "client",
+			assetProvider: provider,
+			manifest: false,
+		})
+
+		t.after(() => fastify.close())
+		await fastify.listen({ port: 0 })
+		const port = (fastify.server.address() as AddressInfo).port
+
+		const first = await fetch(`http://localhost:${port}/test.html`)
+		await first.text()
+		const readsAfterFirst = reads.getRawAsset
+
+		const second = await fetch(`http://localhost:${port}/test.html`)
+		await second.text()
+		t.assert.ok(reads.getRawAsset > readsAfterFirst)
+	})
+})
@@ -0,0 +1,169 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import assert from "node:assert/strict"
+import { type TestContext, test } from "node:test"
+import { RANGE_MALFORMED, RANGE_UNSATISFIABLE, parseRange } from "./range"
+import {
+	createTestAssetProvider,
+	createTestServer,
+	listen,
+} from "./test-helpers"
+
+// 26 bytes of predictable content so ranges are easy to verify
+const VIDEO_CONTENT = "abcdefghijklmnopqrstuvwxyz"
+
+const assetProvider = createTestAssetProvider({
+	"client/video.mp4": VIDEO_CONTENT,
+})
+
+async function createServer(t: TestContext) {
+	const fastify = await createTestServer(t, { assetProvider })
+
+	fastify.get("/send", (req, reply) => {
+		return reply.sendFile("video.mp4")
+	})
+
+	fastify.get("/download", (req, reply) => {
+		return reply.download("video.mp4", "tutorial.mp4")
+	})
+
+	return listen(fastify)
+}
+
+test("parseRange", async t => {
+	await t.test("parses single and suffix ranges", () => {
+		assert.deepEqual(parseRange(26, "bytes=0-4"), [{ start: 0, end: 4 }])
+		assert.deepEqual(parseRange(26, "bytes=20-"), [{ start: 20, end: 25 }])
+		assert.deepEqual(parseRange(26, "bytes=-3"), [{ start: 23, end: 25 }])
+		assert.deepEqual(parseRange(26, "bytes=10-100"), [{ start: 10, end: 25 }])
+	})
+
+	await t.test("combines overlapping ranges", () => {
+		assert.deepEqual(parseRange(26, "bytes=0-4,3-8,20-21"), [
+			{ start: 0, end: 8 },
+			{ start: 20, end: 21 },
+		])
+	})
+
+	await t.test("detects unsatisfiable and malformed headers", () => {
+		assert.equal(parseRange(26, "bytes=30-40"), RANGE_UNSATISFIABLE)
+		assert.equal(parseRange(26, "bytes=-0"), RANGE_UNSATISFIABLE)
+		assert.equal(parseRange(26, "items=0-4"), RANGE_MALFORMED)
+		assert.equal(parseRange(26, "bytes=5-1"), RANGE_MALFORMED)
+		assert.equal(parseRange(26, "bytes=abc"), RANGE_MALFORMED)
+	})
+})
+
+test("range requests", async t => {
+	await t.test("advertises byte ranges", async (t: TestContext) => {
+		const address = await createServer(t)
+
+		const response = await fetch(`${address}/video.mp4`)
+		assert.equal(response.status, 200)
+		assert.equal(response.headers.get("accept-ranges"), "bytes")
+		assert.equal(await response.text(), VIDEO_CONTENT)
+	})
+
+	await t.test("serves a single range", async (t: TestContext) => {
+		const address = await createServer(t)
+
+		const response = await fetch(`${address}/video.mp4`, {
+			headers: { range: "bytes=2-5" },
+		})
+		assert.equal(response.status, 206)
+		assert.equal(response.headers.get("content-range"), "bytes 2-5/26")
+		assert.equal(response.headers.get("content-length"), "4")
+		assert.equal(response.headers.get("content-type"), "video/mp4")
+		assert.equal(await response.text(), "cdef")
+	})
+
+	await t.test("serves multiple ranges", async (t: TestContext) => {
+		const address = await createServer(t)
+
+		const response = await fetch(`${address}/video.mp4`, {
+			headers: { range: "bytes=0-1,-2" },
+		})
+		assert.equal(response.status, 206)
+
+		const contentType = response.headers.get("content-type") ?? ""
+		const boundary = /boundary=(\w+)/.exec(contentType)?.[1]
+		assert.ok(contentType.startsWith("multipart/byteranges"))
+		assert.ok(boundary)
+
+		const body = await response.text()
+		assert.equal(
+			body,
+			`--${boundary}\r\ncontent-type: video/mp4\r\ncontent-range: bytes 0-1/26\r\n\r\nab\r\n` +
+				`--${boundary}\r\ncontent-type: video/mp4\r\ncontent-range: bytes 24-25/26\r\n\r\nyz\r\n` +
+				`--${boundary}--\r\n`
+		)
+	})
+
+	await t.test("rejects unsatisfiable ranges", async (t: TestContext) => {
+		const address = await createServer(t)
+
+		const response = await fetch(`${address}/video.mp4`, {
+			headers: { range: "bytes=100-200" },
+		})
+		assert.equal(response.status, 416)
+		assert.equal(response.headers.get("content-range"), "bytes */26")
+	})
+
+	await t.test("ignores malformed ranges", async (t: TestContext) => {
+		const address = await createServer(t)
+
+		const response = await fetch(`${address}/video.mp4`, {
+			headers: { range: "lines=1-2" },
+		})
+		assert.equal(response.status, 200)
+		assert.equal(await response.text(), VIDEO_CONTENT)
+	})
+
+	await t.test(
+		"validates If-Range against the ETag",
+		async (t: TestContext) => {
+			const address = await createServer(t)
+
+			const initial = await fetch(`${address}/video.mp4`)
+			const etag = initial.headers.get("etag") ?? ""
+			await initial.text()
+
+			const matching = await fetch(`${address}/video.mp4`, {
+				headers: { range: "bytes=0-2", "if-range": etag },
+			})
+			assert.equal(matching.status, 206)
+			assert.equal(await matching.text(), "abc")
+
+			const stale = await fetch(`${address}/video.mp4`, {
+				headers: { range: "bytes=0-2", "if-range": '"stale-etag"' },
+			})
+			assert.equal(stale.status, 200)
+			assert.equal(await stale.text(), VIDEO_CONTENT)
+		}
+	)
+
+	await t.test(
+		"supports ranges in reply decorators",
+		async (t: TestContext) => {
+			const address = await createServer(t)
+
+			const sendResponse = await fetch(`${address}/send`, {
+				headers: { range: "bytes=23-" },
+			})
+			assert.equal(sendResponse.status, 206)
+			assert.equal(await sendResponse.text(), "xyz")
+
+			const downloadResponse = await fetch(`${address}/download`, {
+				headers: { range: "bytes=0-0" },
+			})
+			assert.equal(downloadResponse.status, 206)
+			assert.equal(
+				downloadResponse.headers.get("content-disposition"),
+				'attachment; filename="tutorial.mp4"'
+			)
+			assert.equal(await downloadResponse.text(), "a")
+		}
+	)
+})
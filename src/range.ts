@@ -0,0 +1,136 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { randomBytes } from "node:crypto"
+
+/**
+ * An inclusive byte range within an asset
+ */
+export interface ByteRange {
+	start: number
+	end: number
+}
+
+/** Returned by parseRange when no range in the header can be satisfied */
+export const RANGE_UNSATISFIABLE = -1
+/** Returned by parseRange when the header is malformed and should be ignored */
+export const RANGE_MALFORMED = -2
+
+/**
+ * Parse a `Range` header against an asset of the given size.
+ * Overlapping and adjacent ranges are combined, preserving request order.
+ */
+export function parseRange(
+	size: number,
+	header: string
+): ByteRange[] | typeof RANGE_UNSATISFIABLE | typeof RANGE_MALFORMED {
+	const equalsIndex = header.indexOf("=")
+	if (equalsIndex === -1) {
+		return RANGE_MALFORMED
+	}
+
+	// Only byte ranges are supported
+	const unit = header.slice(0, equalsIndex).trim().toLowerCase()
+	if (unit !== "bytes") {
+		return RANGE_MALFORMED
+	}
+
+	const ranges: ByteRange[] = []
+
+	for (const spec of header.slice(equalsIndex + 1).split(",")) {
+		const match = /^\s*(\d*)\s*-\s*(\d*)\s*$/.exec(spec)
+		if (!match || (match[1] === "" && match[2] === "")) {
+			return RANGE_MALFORMED
+		}
+
+		let start: number
+		let end: number
+
+		if (match[1] === "") {
+			// Suffix range: the last N bytes
+			start = Math.max(size - Number(match[2]), 0)
+			end = size - 1
+			if (Number(match[2]) === 0) {
+				continue
+			}
+		} else {
+			start = Number(match[1])
+			end = match[2] === "" ? size - 1 : Math.min(Number(match[2]), size - 1)
+			if (match[2] !== "" && Number(match[2]) < start) {
+				return RANGE_MALFORMED
+			}
+		}
+
+		// Skip ranges that begin past the end of the asset
+		if (start >= size) {
+			continue
+		}
+
+		ranges.push({ start, end })
+	}
+
+	if (ranges.length === 0) {
+		return RANGE_UNSATISFIABLE
+	}
+
+	return combineRanges(ranges)
+}
+
+/**
+ * Merge overlapping or adjacent ranges, keeping the order they were requested in
+ */
+function combineRanges(ranges: ByteRange[]): ByteRange[] {
+	const ordered = ranges
+		.map((range, index) => ({ ...range, index }))
+		.sort((a, b) => a.start - b.start)
+
+	const merged: (ByteRange & { index: number })[] = []
+	for (const range of ordered) {
+		const last = merged[merged.length - 1]
+		if (last && range.start <= last.end + 1) {
+			last.end = Math.max(last.end, range.end)
+			last.index = Math.min(last.index, range.index)
+		} else {
+			merged.push({ ...range })
+		}
+	}
+
+	return merged
+		.sort((a, b) => a.index - b.index)
+		.map(({ start, end }) => ({ start, end }))
+}
+
+/**
+ * Format a `Content-Range` header value
+ */
+export function contentRange(size: number, range?: ByteRange): string {
+	return range ? `bytes ${range.start}-${range.end}/${size}` : `bytes */${size}`
+}
+
+/**
+ * Build a `multipart/byteranges` body for the given ranges
+ */
+export function multipartByteranges(
+	content: Buffer,
+	ranges: ByteRange[],
+	contentType: string
+): { boundary: string; body: Buffer } {
+	const boundary = randomBytes(12).toString("hex")
+	const parts: Buffer[] = []
+
+	for (const range of ranges) {
+		parts.push(
+			Buffer.from(
+				`--${boundary}\r\n` +
+					`content-type: ${contentType}\r\n` +
+					`content-range: ${contentRange(content.byteLength, range)}\r\n\r\n`
+			),
+			content.subarray(range.start, range.end + 1),
+			Buffer.from("\r\n")
+		)
+	}
+	parts.push(Buffer.from(`--${boundary}--\r\n`))
+
+	return { boundary, body: Buffer.concat(parts) }
+}
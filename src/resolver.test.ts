@@ -0,0 +1,116 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { AssetResolver } from "./resolver"
+
+const ASSETS = new Set([
+	"client/index.html",
+	"client/app.js",
+	"client/docs/index.htm",
+])
+
+function createResolver(
+	options: { extensions?: string[]; cache?: boolean; maxEntries?: number } = {}
+) {
+	const probes: string[] = []
+	const resolver = new AssetResolver(
+		key => {
+			probes.push(key)
+			return ASSETS.has(key)
+		},
+		{ indexFiles: ["index.html", "index.htm"], ...options }
+	)
+	return { resolver, probes }
+}
+
+test("AssetResolver", async t => {
+	await t.test("resolves assets and index files", () => {
+		const { resolver } = createResolver()
+
+		assert.deepEqual(resolver.resolve("client/app.js"), {
+			key: "client/app.js",
+			index: false,
+		})
+		assert.deepEqual(resolver.resolve("client"), {
+			key: "client/index.html",
+			index: true,
+		})
+		assert.deepEqual(resolver.resolve("client/docs/"), {
+			key: "client/docs/index.htm",
+			index: true,
+		})
+		assert.equal(resolver.resolve("client/missing.js"), undefined)
+	})
+
+	await t.test("appends extensions when there is no exact match", () => {
+		const { resolver, probes } = createResolver({
+			extensions: [".js", "html"],
+		})
+
+		assert.deepEqual(resolver.resolve("client/app"), {
+			key: "client/app.js",
+			index: false,
+		})
+		assert.equal(resolver.resolve("client/index")?.key, "client/index.html")
+		assert.equal(resolver.resolve("client/docs")?.key, "client/docs/index.htm")
+		assert.equal(resolver.resolve("client/docs/")?.index, true)
+
+		assert.ok(probes.includes("client/app.js"))
+	})
+
+	await t.test("doesn't probe extensions for exact matches", () => {
+		const { resolver, probes } = createResolver({ extensions: ["html"] })
+
+		resolver.resolve("client/app.js")
+		assert.deepEqual(probes, ["client/app.js"])
+	})
+
+	await t.test("memoizes hits and misses", () => {
+		const { resolver, probes } = createResolver()
+
+		resolver.resolve("client/missing.js")
+		resolver.resolve("client/docs")
+		const probeCount = probes.length
+
+		assert.equal(resolver.resolve("client/missing.js"), undefined)
+		assert.equal(resolver.resolve("client/docs")?.key, "client/docs/index.htm")
+		assert.equal(resolver.has("client/missing.js"), false)
+		assert.equal(probes.length, probeCount)
+	})
+
+	await t.test("can be pre-warmed with known keys", () => {
+		const { resolver, probes } = createResolver()
+		resolver.prewarm(ASSETS)
+
+		assert.equal(resolver.resolve("client/")?.key, "client/index.html")
+		assert.equal(resolver.resolve("client/docs")?.key, "client/docs/index.htm")
+		assert.equal(resolver.resolve("client/app.js")?.index, false)
+		assert.deepEqual(probes, [])
+	})
+
+	await t.test("probes every time without caching", () => {
+		const { resolver, probes } = createResolver({ cache: false })
+
+		resolver.resolve("client/app.js")
+		resolver.resolve("client/app.js")
+		assert.deepEqual(probes, ["client/app.js", "client/app.js"])
+	})
+
+	await t.test("bounds the number of memoized lookups", () => {
+		const { resolver, probes } = createResolver({ maxEntries: 2 })
+
+		resolver.has("client/a.js")
+		resolver.has("client/b.js")
+		resolver.has("client/c.js")
+		resolver.has("client/a.js")
+		assert.deepEqual(probes, [
+			"client/a.js",
+			"client/b.js",
+			"client/c.js",
+			"client/a.js",
+		])
+	})
+})
@@ -0,0 +1,160 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import path from "node:path"
+
+/** Default bound on memoized lookups, so arbitrary URLs can't grow them forever */
+const DEFAULT_MAX_ENTRIES = 10_000
+
+/**
+ * The asset a path resolved to
+ */
+export interface ResolvedAsset {
+	/** Asset key to serve */
+	key: string
+	/** Whether the key is an index file of the requested directory */
+	index: boolean
+}
+
+/**
+ * Options for the asset resolver
+ */
+export interface AssetResolverOptions {
+	/** Index filenames to try for directories, in order */
+	indexFiles: readonly string[]
+	/** Extensions to try appending when a path has no exact match, e.g. ['html'] */
+	extensions?: readonly string[]
+	/** Memoize lookups (default: true) */
+	cache?: boolean
+	/** Maximum number of memoized lookups of each kind (default: 10000) */
+	maxEntries?: number
+}
+
+/**
+ * Resolves request paths to asset keys, directly, by appending an extension
+ * or via an index file.
+ * Existence checks and resolutions, including misses, are memoized so
+ * repeated requests don't probe the provider again.
+ */
+export class AssetResolver {
+	readonly #exists: (key: string) => boolean
+	readonly #indexFiles: readonly string[]
+	readonly #extensions: readonly string[]
+	readonly #cache: boolean
+	readonly #maxEntries: number
+	readonly #known = new Map<string, boolean>()
+	readonly #resolved = new Map<string, ResolvedAsset | null>()
+
+	constructor(exists: (key: string) => boolean, options: AssetResolverOptions) {
+		this.#exists = exists
+		this.#indexFiles = options.indexFiles
+		this.#extensions = (options.extensions ?? []).map(extension =>
+			extension.replace(/^\./, "")
+		)
+		this.#cache = options.cache ?? true
+		this.#maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES
+	}
+
+	/**
+	 * Check if an asset key exists
+	 */
+	has(key: string): boolean {
+		const known = this.#known.get(key)
+		if (known !== undefined) {
+			return known
+		}
+
+		const exists = this.#exists(key)
+		if (this.#cache) {
+			remember(this.#known, key, exists, this.#maxEntries)
+		}
+		return exists
+	}
+
+	/**
+	 * Resolve a full asset path to the asset itself, the path with one of the
+	 * extensions appended, or the first index file under it. Returns
+	 * undefined when none exists.
+	 */
+	resolve(assetPath: string): ResolvedAsset | undefined {
+		const cached = this.#resolved.get(assetPath)
+		if (cached !== undefined) {
+			return cached ?? undefined
+		}
+
+		let resolved: ResolvedAsset | undefined
+		if (this.has(assetPath)) {
+			resolved = { key: assetPath, index: false }
+		}
+
+		// Clean URLs: /guide/install serves guide/install.html
+		if (!resolved && !assetPath.endsWith("/")) {
+			const extensionKey = this.#extensions
+				.map(extension => `${assetPath}.${extension}`)
+				.find(candidate => this.has(candidate))
+			if (extensionKey) {
+				resolved = { key: extensionKey, index: false }
+			}
+		}
+
+		if (!resolved) {
+			const indexKey = this.#indexFiles
+				.map(index => path.posix.join(assetPath, index))
+				.find(candidate => this.has(candidate))
+			resolved = indexKey ? { key: indexKey, index: true } : undefined
+		}
+
+		if (this.#cache) {
+			remember(this.#resolved, assetPath, resolved ?? null, this.#maxEntries)
+		}
+		return resolved
+	}
+
+	/**
+	 * Record a complete list of asset keys, e.g. from a manifest, so that
+	 * lookups for them and their directories never reach the provider
+	 */
+	prewarm(keys: Iterable<string>): void {
+		const keySet = new Set(keys)
+		for (const key of keySet) {
+			this.#known.set(key, true)
+			this.#resolved.set(key, { key, index: false })
+		}
+
+		// Directories resolve to their first index file, unless the directory
+		// path is itself an asset
+		for (const key of keySet) {
+			const directory = path.posix.dirname(key)
+			const indexKey = this.#indexFiles
+				.map(index => path.posix.join(directory, index))
+				.find(candidate => keySet.has(candidate))
+
+			if (indexKey === key) {
+				const resolved = { key, index: true }
+				this.#resolved.set(`${directory}/`, resolved)
+				if (!keySet.has(directory)) {
+					this.#resolved.set(directory, resolved)
+				}
+			}
+		}
+	}
+}
+
+/**
+ * Store a memoized value, dropping the oldest entry once the map is full
+ */
+function remember<T>(
+	map: Map<string, T>,
+	key: string,
+	value: T,
+	maxEntries: number
+): void {
+	if (map.size >= maxEntries) {
+		const [oldestKey] = map.keys()
+		if (oldestKey !== undefined) {
+			map.delete(oldestKey)
+		}
+	}
+	map.set(key, value)
+}
@@ -0,0 +1,131 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import assert from "node:assert/strict"
+import { type TestContext, test } from "node:test"
+import type { FastifySeaStaticOptions } from "./fastify-sea-static"
+import { type RewriteRule, applyRewrites } from "./rewrite"
+import { createTestAssetProvider, createTestServer } from "./test-helpers"
+
+const TEST_ASSETS: Record<string, string> = {
+	"client/index.html": "<html>Home</html>",
+	"client/img/brand/favicon.ico": "icon",
+	"client/docs/index.html": "<html>Docs</html>",
+	"client/docs/setup.html": "<html>Setup</html>",
+	"client/docs/internal.html": "<html>Internal</html>",
+	"client/private/secret.txt": "private",
+	"secret.txt": "secret",
+}
+
+const REWRITES: RewriteRule[] = [
+	{ from: "/favicon.ico", to: "img/brand/favicon.ico" },
+	{ from: "/v1/docs/*", to: "docs/:splat" },
+	{ from: /^\/manual\/(?<page>\w+)$/, to: "docs/$<page>.html" },
+	{ from: /^\/escape\/(.*)$/, to: "../$1" },
+]
+
+const assetProvider = createTestAssetProvider(TEST_ASSETS)
+
+async function createServer(
+	t: TestContext,
+	opts: FastifySeaStaticOptions = {}
+) {
+	const fastify = await createTestServer(t, {
+		rewrites: REWRITES,
+		assetProvider,
+		...opts,
+	})
+	return fastify
+}
+
+test("applyRewrites", () => {
+	assert.equal(applyRewrites(REWRITES, "/favicon.ico"), "img/brand/favicon.ico")
+	assert.equal(applyRewrites(REWRITES, "/v1/docs/a/b.html"), "docs/a/b.html")
+	assert.equal(applyRewrites(REWRITES, "/manual/setup"), "docs/setup.html")
+	assert.equal(applyRewrites(REWRITES, "/escape/secret.txt"), "../secret.txt")
+	assert.equal(applyRewrites(REWRITES, "/docs/setup.html"), undefined)
+
+	// The first matching rule wins
+	assert.equal(
+		applyRewrites(
+			[
+				{ from: "/a", to: "first" },
+				{ from: "/*", to: "second" },
+			],
+			"/a"
+		),
+		"first"
+	)
+})
+
+test("rewrites option", async t => {
+	await t.test("serves the rewritten asset", async (t: TestContext) => {
+		const fastify = await createServer(t)
+
+		const favicon = await fastify.inject("/favicon.ico")
+		assert.equal(favicon.statusCode, 200)
+		assert.equal(favicon.body, "icon")
+		assert.equal(favicon.headers["content-type"], "image/vnd.microsoft.icon")
+
+		const docs = await fastify.inject("/v1/docs/setup.html")
+		assert.equal(docs.statusCode, 200)
+		assert.equal(docs.body, "<html>Setup</html>")
+
+		// Directories still resolve to their index file
+		const index = await fastify.inject("/v1/docs/")
+		assert.equal(index.body, "<html>Docs</html>")
+
+		const manual = await fastify.inject("/manual/setup")
+		assert.equal(manual.body, "<html>Setup</html>")
+	})
+
+	await t.test("keeps traversal protection", async (t: TestContext) => {
+		const fastify = await createServer(t)
+
+		const response = await fastify.inject("/escape/secret.txt")
+		assert.equal(response.statusCode, 404)
+		assert.notEqual(response.body, "secret")
+	})
+
+	await t.test(
+		"keeps splats inside the destination",
+		async (t: TestContext) => {
+			const checked: string[] = []
+			const fastify = await createServer(t, {
+				exclude: ["private/**"],
+				allowedPath: pathName => {
+					checked.push(pathName)
+					return !pathName.startsWith("private/")
+				},
+			})
+
+			const response = await fastify.inject("/v1/docs/..%2fprivate/secret.txt")
+			assert.equal(response.statusCode, 404)
+			assert.notEqual(response.body, "private")
+			assert.deepEqual(checked, [])
+		}
+	)
+
+	await t.test("checks allowedPath", async (t: TestContext) => {
+		const paths: string[] = []
+		const fastify = await createServer(t, {
+			allowedPath: pathName => {
+				paths.push(pathName)
+				return pathName !== "docs/internal.html"
+			},
+		})
+
+		const response = await fastify.inject("/v1/docs/internal.html")
+		assert.equal(response.statusCode, 404)
+		assert.deepEqual(paths, ["docs/internal.html"])
+	})
+
+	await t.test("leaves other paths untouched", async (t: TestContext) => {
+		const fastify = await createServer(t)
+
+		const response = await fastify.inject("/docs/setup.html")
+		assert.equal(response.statusCode, 200)
+		assert.equal(response.body, "<html>Setup</html>")
+	})
+})
@@ -0,0 +1,55 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { compilePathPattern, fillPlaceholders } from "./path-pattern.js"
+
+/**
+ * Maps request paths onto other assets without a redirect
+ */
+export interface RewriteRule {
+	/**
+	 * Request path under the prefix, e.g. '/favicon.ico'. Strings may use `*`
+	 * splats and `:name` placeholders like _redirects; regular expressions
+	 * may use capture groups.
+	 */
+	from: string | RegExp
+	/**
+	 * Asset path relative to the root, e.g. 'img/brand/favicon.ico'. Use
+	 * `:splat` and `:name` with string patterns, `$1` and `$<name>` with
+	 * regular expressions.
+	 */
+	to: string
+}
+
+/**
+ * Rewrite a request path with the first matching rule. Returns undefined
+ * when no rule matches.
+ */
+export function applyRewrites(
+	rules: readonly RewriteRule[],
+	urlPath: string
+): string | undefined {
+	for (const rule of rules) {
+		if (typeof rule.from === "string") {
+			const match = compilePathPattern(rule.from).exec(urlPath)
+			if (match) {
+				return fillPlaceholders(rule.to, match.groups ?? {})
+			}
+			continue
+		}
+
+		rule.from.lastIndex = 0
+		const match = rule.from.exec(urlPath)
+		if (match) {
+			return rule.to.replace(
+				/\$(\d+)|\$<(\w+)>/g,
+				(reference, index?: string, name?: string) =>
+					(index !== undefined
+						? match[Number(index)]
+						: match.groups?.[name as string]) ?? ""
+			)
+		}
+	}
+	return undefined
+}
@@ -4,8 +4,9 @@
 
 import type { AddressInfo } from "node:net"
 import { type TestContext, test } from "node:test"
-import Fastify from "fastify"
+import Fastify, { type FastifyError } from "fastify"
 import fastifySeaStatic, { type SeaAssetProvider } from "./fastify-sea-static"
+import { createTestAssetProvider } from "./test-helpers"
 
 // Track requested paths for testing path traversal
 const requestedPaths: string[] = []
@@ -263,6 +264,371 @@ test("handlers for allowed paths", async t => {
 	})
 })
 
+test("async allowedPath with status codes", async t => {
+	t.plan(6)
+
+	await t.test("async predicates", async (t: TestContext) => {
+		t.plan(2)
+
+		const fastify = Fastify()
+		fastify.register(fastifySeaStatic, {
+			root: "client",
+			assetProvider: mockAssetProvider,
+			allowedPath: async (_pathName, _root, request) => {
+				// Simulate a session lookup
+				await new Promise(resolve => setImmediate(resolve))
+				return request.headers.authorization === "Bearer valid"
+			},
+		})
+
+		t.after(() => fastify.close())
+		await fastify.listen({ port: 0 })
+		const port = (fastify.server.address() as AddressInfo).port
+
+		const allowed = await fetch(`http://localhost:${port}/test.html`, {
+			headers: { authorization: "Bearer valid" },
+		})
+		t.assert.deepStrictEqual(allowed.status, 200)
+		await allowed.text()
+
+		const denied = await fetch(`http://localhost:${port}/test.html`)
+		t.assert.deepStrictEqual(denied.status, 404)
+		await denied.text()
+	})
+
+	await t.test(
+		"results with status codes and reasons",
+		async (t: TestContext) => {
+			t.plan(5)
+
+			const fastify = Fastify()
+			fastify.register(fastifySeaStatic, {
+				root: "client",
+				assetProvider: mockAssetProvider,
+				allowedPath: async (_pathName, _root, request) => {
+					const role = (request.query as Record<string, string>).role
+					if (!role) {
+						return { allow: false, statusCode: 401, reason: "Sign in first" }
+					}
+					if (role !== "staff") {
+						return { allow: false, statusCode: 403 }
+					}
+					return { allow: true }
+				},
+			})
+
+			t.after(() => fastify.close())
+			await fastify.listen({ port: 0 })
+			const port = (fastify.server.address() as AddressInfo).port
+
+			const unauthorized = await fetch(`http://localhost:${port}/test.html`)
+			t.assert.deepStrictEqual(unauthorized.status, 401)
+			t.assert.deepStrictEqual(await unauthorized.json(), {
+				error: "Unauthorized",
+				message: "Sign in first",
+			})
+
+			const forbidden = await fetch(
+				`http://localhost:${port}/test.html?role=guest`
+			)
+			t.assert.deepStrictEqual(forbidden.status, 403)
+			t.assert.deepStrictEqual(await forbidden.json(), { error: "Forbidden" })
+
+			const allowed = await fetch(
+				`http://localhost:${port}/test.html?role=staff`
+			)
+			t.assert.deepStrictEqual(allowed.status, 200)
+			await allowed.text()
+		}
+	)
+
+	await t.test(
+		"denials flow through useErrorHandler",
+		async (t: TestContext) => {
+			t.plan(3)
+
+			const fastify = Fastify()
+			fastify.register(fastifySeaStatic, {
+				root: "client",
+				assetProvider: mockAssetProvider,
+				useErrorHandler: true,
+				allowedPath: async () => ({
+					allow: false,
+					statusCode: 403,
+					reason: "Reports require the staff role",
+				}),
+			})
+			fastify.setErrorHandler((error: FastifyError, _request, reply) => {
+				reply
+					.code(error.statusCode ?? 500)
+					.send({ custom: true, message: error.message })
+			})
+
+			t.after(() => fastify.close())
+			await fastify.listen({ port: 0 })
+			const port = (fastify.server.address() as AddressInfo).port
+
+			const response = await fetch(`http://localhost:${port}/test.html`)
+			t.assert.deepStrictEqual(response.status, 403)
+			const body = (await response.json()) as {
+				custom: boolean
+				message: string
+			}
+			t.assert.deepStrictEqual(body.custom, true)
+			t.assert.deepStrictEqual(body.message, "Reports require the staff role")
+		}
+	)
+
+	await t.test("sendFile options", async (t: TestContext) => {
+		t.plan(2)
+
+		const fastify = Fastify()
+		fastify.register(fastifySeaStatic, {
+			root: "client",
+			assetProvider: mockAssetProvider,
+			serve: false,
+		})
+		fastify.get("/report", (_request, reply) => {
+			return reply.sendFile("test.html", {
+				allowedPath: async () => ({ allow: false, statusCode: 401 }),
+			})
+		})
+		fastify.get("/public", (_request, reply) => {
+			return reply.sendFile("test.html", {
+				allowedPath: async () => true,
+			})
+		})
+
+		t.after(() => fastify.close())
+		await fastify.listen({ port: 0 })
+		const port = (fastify.server.address() as AddressInfo).port
+
+		const report = await fetch(`http://localhost:${port}/report`)
+		t.assert.deepStrictEqual(report.status, 401)
+		await report.text()
+
+		const publicResponse = await fetch(`http://localhost:${port}/public`)
+		t.assert.deepStrictEqual(publicResponse.status, 200)
+		await publicResponse.text()
+	})
+
+	await t.test(
+		"sendFile denials reach the error handler",
+		async (t: TestContext) => {
+			t.plan(2)
+
+			const fastify = Fastify()
+			fastify.register(fastifySeaStatic, {
+				root: "client",
+				assetProvider: mockAssetProvider,
+				serve: false,
+			})
+			fastify.setErrorHandler((error: FastifyError, _request, reply) => {
+				reply
+					.code(error.statusCode ?? 500)
+					.send({ custom: true, message: error.message })
+			})
+			fastify.get("/report", (_request, reply) => {
+				return reply.sendFile("test.html", {
+					useErrorHandler: true,
+					allowedPath: () => ({ allow: false, statusCode: 403 }),
+				})
+			})
+
+			t.after(() => fastify.close())
+			await fastify.listen({ port: 0 })
+			const port = (fastify.server.address() as AddressInfo).port
+
+			const response = await fetch(`http://localhost:${port}/report`)
+			t.assert.deepStrictEqual(response.status, 403)
+			const body = (await response.json()) as { custom: boolean }
+			t.assert.deepStrictEqual(body.custom, true)
+		}
+	)
+
+	await t.test(
+		"sendFile answers when allowedPath rejects",
+		async (t: TestContext) => {
+			t.plan(1)
+
+			const fastify = Fastify()
+			fastify.register(fastifySeaStatic, {
+				root: "client",
+				assetProvider: mockAssetProvider,
+				serve: false,
+			})
+			fastify.get("/report", (_request, reply) => {
+				return reply.sendFile("test.html", {
+					allowedPath: async () => {
+						throw new Error("Session store unavailable")
+					},
+				})
+			})
+
+			t.after(() => fastify.close())
+			await fastify.listen({ port: 0 })
+			const port = (fastify.server.address() as AddressInfo).port
+
+			const response = await fetch(`http://localhost:${port}/report`, {
+				signal: AbortSignal.timeout(5000),
+			})
+			t.assert.deepStrictEqual(response.status, 500)
+			await response.text()
+		}
+	)
+})
+
+test("include, exclude and dotfile allow list", async t => {
+	t.plan(5)
+
+	// Provider with a few more paths than the shared mock
+	const assets: Record<string, string> = {
+		"client/index.html": "<html>Home</html>",
+		"client/assets/app.js": "console.log('app')",
+		"client/assets/app.js.map": "{}",
+		"client/admin/index.html": "<html>Admin</html>",
+		"client/.env": "SECRET=1",
+		"client/.well-known/security.txt": "Contact: security@example.com",
+	}
+	const provider = createTestAssetProvider(assets)
+
+	async function status(port: number, url: string) {
+		const response = await fetch(`http://localhost:${port}${url}`)
+		await response.text()
+		return response.status
+	}
+
+	await t.test("exclude and include globs", async (t: TestContext) => {
+		t.plan(5)
+
+		const fastify = Fastify()
+		fastify.register(fastifySeaStatic, {
+			root: "client",
+			assetProvider: provider,
+			include: ["*.html", "assets/**"],
+			exclude: ["*.map", "admin/**"],
+		})
+
+		t.after(() => fastify.close())
+		await fastify.listen({ port: 0 })
+		const port = (fastify.server.address() as AddressInfo).port
+
+		t.assert.deepStrictEqual(await status(port, "/"), 200)
+		t.assert.deepStrictEqual(await status(port, "/assets/app.js"), 200)
+		t.assert.deepStrictEqual(await status(port, "/assets/app.js.map"), 404)
+		t.assert.deepStrictEqual(await status(port, "/admin/"), 404)
+		t.assert.deepStrictEqual(await status(port, "/.env"), 404)
+	})
+
+	await t.test("configurable blocked response", async (t: TestContext) => {
+		t.plan(2)
+
+		const fastify = Fastify()
+		fastify.register(fastifySeaStatic, {
+			root: "client",
+			assetProvider: provider,
+			exclude: ["*.map"],
+			blockedResponse: { statusCode: 403, message: "Source maps are private" },
+		})
+
+		t.after(() => fastify.close())
+		await fastify.listen({ port: 0 })
+		const port = (fastify.server.address() as AddressInfo).port
+
+		const response = await fetch(`http://localhost:${port}/assets/app.js.map`)
+		t.assert.deepStrictEqual(response.status, 403)
+		t.assert.deepStrictEqual(await response.json(), {
+			error: "Forbidden",
+			message: "Source maps are private",
+		})
+	})
+
+	await t.test("dotfilesAllowList", async (t: TestContext) => {
+		t.plan(3)
+
+		const fastify = Fastify()
+		fastify.register(fastifySeaStatic, {
+			root: "client",
+			assetProvider: provider,
+			dotfiles: "deny",
+			dotfilesAllowList: [".well-known/**"],
+		})
+
+		t.after(() => fastify.close())
+		await fastify.listen({ port: 0 })
+		const port = (fastify.server.address() as AddressInfo).port
+
+		const response = await fetch(
+			`http://localhost:${port}/.well-known/security.txt`
+		)
+		t.assert.deepStrictEqual(response.status, 200)
+		t.assert.deepStrictEqual(
+			await response.text(),
+			"Contact: security@example.com"
+		)
+		t.assert.deepStrictEqual(await status(port, "/.env"), 403)
+	})
+
+	await t.test(
+		"encoded .. segments can't bypass the checks",
+		async (t: TestContext) => {
+			t.plan(3)
+
+			const fastify = Fastify()
+			fastify.register(fastifySeaStatic, {
+				root: "client",
+				assetProvider: provider,
+				dotfiles: "deny",
+				dotfilesAllowList: [".well-known/**"],
+				exclude: ["admin/**"],
+			})
+
+			t.after(() => fastify.close())
+			await fastify.listen({ port: 0 })
+			const port = (fastify.server.address() as AddressInfo).port
+
+			t.assert.deepStrictEqual(
+				await status(port, "/.well-known/..%2f.env"),
+				404
+			)
+			t.assert.deepStrictEqual(
+				await status(port, "/assets/..%2fadmin/index.html"),
+				404
+			)
+			// The normalized path is checked, not the raw one
+			t.assert.deepStrictEqual(await status(port, "/%2e/admin/index.html"), 404)
+		}
+	)
+
+	await t.test("evaluated before allowedPath", async (t: TestContext) => {
+		t.plan(3)
+
+		const checked: string[] = []
+		const fastify = Fastify()
+		fastify.register(fastifySeaStatic, {
+			root: "client",
+			assetProvider: provider,
+			useErrorHandler: true,
+			exclude: ["*.map"],
+			allowedPath: pathName => {
+				checked.push(pathName)
+				return true
+			},
+		})
+		fastify.setErrorHandler((error: FastifyError, _request, reply) => {
+			reply.code(error.statusCode ?? 500).send({ message: error.message })
+		})
+
+		t.after(() => fastify.close())
+		await fastify.listen({ port: 0 })
+		const port = (fastify.server.address() as AddressInfo).port
+
+		t.assert.deepStrictEqual(await status(port, "/assets/app.js.map"), 404)
+		t.assert.deepStrictEqual(await status(port, "/assets/app.js"), 200)
+		t.assert.deepStrictEqual(checked, ["assets/app.js"])
+	})
+})
+
 test("handling malicious requests", async t => {
 	t.plan(2)
 
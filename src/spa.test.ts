@@ -0,0 +1,144 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import assert from "node:assert/strict"
+import { type TestContext, test } from "node:test"
+import type { FastifySeaStaticOptions } from "./fastify-sea-static"
+import {
+	createTestAssetProvider,
+	createTestServer,
+	listen,
+} from "./test-helpers"
+
+const TEST_ASSETS: Record<string, string> = {
+	"client/index.html": "<html>App</html>",
+	"client/app.html": "<html>Shell</html>",
+	"client/app.js": "console.log('app')",
+	"client/docs/index.html": "<html>Docs</html>",
+}
+
+const HTML_ACCEPT = "text/html,application/xhtml+xml,*/*;q=0.8"
+
+const assetProvider = createTestAssetProvider(TEST_ASSETS)
+
+async function createServer(
+	t: TestContext,
+	spa: FastifySeaStaticOptions["spa"]
+) {
+	const fastify = await createTestServer(t, {
+		spa,
+		maxAge: 3600,
+		assetProvider,
+	})
+
+	fastify.get("/api/users", () => [])
+
+	return listen(fastify)
+}
+
+test("SPA fallback", async t => {
+	await t.test(
+		"serves index.html for client routes",
+		async (t: TestContext) => {
+			const address = await createServer(t, true)
+
+			const response = await fetch(`${address}/dashboard/settings?tab=1`, {
+				headers: { accept: HTML_ACCEPT },
+			})
+			assert.equal(response.status, 200)
+			assert.equal(response.headers.get("cache-control"), "no-cache")
+			assert.equal(
+				response.headers.get("content-type"),
+				"text/html; charset=utf-8"
+			)
+			assert.equal(await response.text(), "<html>App</html>")
+		}
+	)
+
+	await t.test("leaves existing assets untouched", async (t: TestContext) => {
+		const address = await createServer(t, true)
+
+		const assetResponse = await fetch(`${address}/app.js`, {
+			headers: { accept: HTML_ACCEPT },
+		})
+		assert.equal(assetResponse.status, 200)
+		assert.equal(
+			assetResponse.headers.get("cache-control"),
+			"public, max-age=3600"
+		)
+		assert.equal(await assetResponse.text(), "console.log('app')")
+
+		const dirResponse = await fetch(`${address}/docs`, {
+			headers: { accept: HTML_ACCEPT },
+		})
+		assert.equal(dirResponse.status, 200)
+		assert.equal(await dirResponse.text(), "<html>Docs</html>")
+	})
+
+	await t.test(
+		"skips requests that aren't navigations",
+		async (t: TestContext) => {
+			const address = await createServer(t, true)
+
+			// Missing file with an extension
+			const missingScript = await fetch(`${address}/missing.js`, {
+				headers: { accept: HTML_ACCEPT },
+			})
+			assert.equal(missingScript.status, 404)
+			await missingScript.text()
+
+			// Client that doesn't accept HTML
+			const jsonRequest = await fetch(`${address}/dashboard`, {
+				headers: { accept: "application/json" },
+			})
+			assert.equal(jsonRequest.status, 404)
+			await jsonRequest.text()
+		}
+	)
+
+	await t.test("respects excluded prefixes", async (t: TestContext) => {
+		const address = await createServer(t, { exclude: ["/api"] })
+
+		const missingApi = await fetch(`${address}/api/missing`, {
+			headers: { accept: HTML_ACCEPT },
+		})
+		assert.equal(missingApi.status, 404)
+		await missingApi.text()
+
+		const apiRoute = await fetch(`${address}/api/users`)
+		assert.equal(apiRoute.status, 200)
+		assert.deepEqual(await apiRoute.json(), [])
+
+		// Similar-looking paths outside the prefix still get the fallback
+		const apiary = await fetch(`${address}/apiary`, {
+			headers: { accept: HTML_ACCEPT },
+		})
+		assert.equal(apiary.status, 200)
+		await apiary.text()
+	})
+
+	await t.test("supports a custom fallback", async (t: TestContext) => {
+		const address = await createServer(t, {
+			fallback: "app.html",
+			cacheControl: "no-store",
+		})
+
+		const response = await fetch(`${address}/profile`, {
+			headers: { accept: HTML_ACCEPT },
+		})
+		assert.equal(response.status, 200)
+		assert.equal(response.headers.get("cache-control"), "no-store")
+		assert.equal(await response.text(), "<html>Shell</html>")
+	})
+
+	await t.test("is disabled by default", async (t: TestContext) => {
+		const address = await createServer(t, undefined)
+
+		const response = await fetch(`${address}/dashboard`, {
+			headers: { accept: HTML_ACCEPT },
+		})
+		assert.equal(response.status, 404)
+		await response.text()
+	})
+})
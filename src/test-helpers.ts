@@ -0,0 +1,74 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import type { AddressInfo } from "node:net"
+import type { TestContext } from "node:test"
+import Fastify, { type FastifyInstance } from "fastify"
+import fastifySeaStatic, {
+	type FastifySeaStaticOptions,
+	type SeaAssetProvider,
+} from "./fastify-sea-static.js"
+
+/**
+ * Options for the in-memory test provider
+ */
+export interface TestAssetProviderOptions {
+	/** Implement getAssetKeys like the filesystem and archive providers */
+	listable?: boolean
+	/** Called with every key read through getAsset */
+	onRead?: (key: string) => void
+}
+
+/**
+ * Create an in-memory SeaAssetProvider that throws the same error as
+ * node:sea for keys it doesn't hold
+ */
+export function createTestAssetProvider(
+	assets: Record<string, string | Buffer>,
+	options: TestAssetProviderOptions = {}
+): SeaAssetProvider {
+	return {
+		isSea: () => true,
+
+		getAsset: (key: string, encoding?: string) => {
+			options.onRead?.(key)
+			const value = assets[key]
+			if (value === undefined) {
+				throw new Error(`No matching asset found for ${key}`)
+			}
+			const content = Buffer.from(value)
+			if (encoding) {
+				return content.toString(encoding as BufferEncoding)
+			}
+			return content.buffer.slice(
+				content.byteOffset,
+				content.byteOffset + content.byteLength
+			) as ArrayBuffer
+		},
+
+		...(options.listable && { getAssetKeys: () => Object.keys(assets) }),
+	}
+}
+
+/**
+ * Register the plugin under the 'client' root, closing the server when the
+ * test ends
+ */
+export async function createTestServer(
+	t: TestContext,
+	opts: FastifySeaStaticOptions
+): Promise<FastifyInstance> {
+	const fastify = Fastify()
+	await fastify.register(fastifySeaStatic, { root: "client", ...opts })
+	t.after(() => fastify.close())
+	return fastify
+}
+
+/**
+ * Start listening on a free port and return the server's base URL
+ */
+export async function listen(fastify: FastifyInstance): Promise<string> {
+	await fastify.listen({ port: 0 })
+	return `http://localhost:${(fastify.server.address() as AddressInfo).port}`
+}
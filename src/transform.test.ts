@@ -0,0 +1,128 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import assert from "node:assert/strict"
+import { type TestContext, test } from "node:test"
+import { hashEtag } from "./etag"
+import type { FastifySeaStaticOptions } from "./fastify-sea-static"
+import { createTestAssetProvider, createTestServer } from "./test-helpers"
+import { isTransformable, jsonScript, transformText } from "./transform"
+
+const TEST_ASSETS: Record<string, string> = {
+	"client/index.html":
+		"<html><head><!--app-config--></head><body>App</body></html>",
+	"client/index.html.gz": "precompressed",
+	"client/app.js": "const config = '<!--app-config-->'",
+}
+
+const assetProvider = createTestAssetProvider(TEST_ASSETS)
+
+async function createServer(
+	t: TestContext,
+	opts: FastifySeaStaticOptions = {}
+) {
+	const fastify = await createTestServer(t, {
+		assetProvider,
+		...opts,
+	})
+	return fastify
+}
+
+test("jsonScript", () => {
+	assert.equal(
+		jsonScript({ apiUrl: "https://api.example.com" }, { id: "app-config" }),
+		'<script type="application/json" id="app-config">{"apiUrl":"https://api.example.com"}</script>'
+	)
+	assert.equal(
+		jsonScript("</script><script>alert(1)</script>"),
+		'<script type="application/json">"\\u003c/script\\u003e\\u003cscript\\u003ealert(1)\\u003c/script\\u003e"</script>'
+	)
+})
+
+test("isTransformable", () => {
+	assert.equal(isTransformable("text/html; charset=utf-8", ["text/html"]), true)
+	assert.equal(isTransformable("text/css", ["text/html"]), false)
+	assert.equal(isTransformable(undefined, ["text/html"]), false)
+})
+
+test("transformText", async () => {
+	const text = await transformText("<!--a--> <!--b--> <!--a-->", "index.html", {
+		replacements: { "<!--a-->": "A", "<!--b-->": "B" },
+		hook: (text, pathName) => `${text} ${pathName}`,
+	})
+	assert.equal(text, "A B A index.html")
+})
+
+test("transform option", async t => {
+	await t.test("injects runtime configuration", async (t: TestContext) => {
+		const config = jsonScript({ version: "1.2.3" }, { id: "app-config" })
+		const fastify = await createServer(t, {
+			transform: { replacements: { "<!--app-config-->": config } },
+		})
+
+		const response = await fastify.inject("/")
+		const expected = `<html><head>${config}</head><body>App</body></html>`
+		assert.equal(response.statusCode, 200)
+		assert.equal(response.body, expected)
+		assert.equal(
+			response.headers["content-length"],
+			String(Buffer.byteLength(expected))
+		)
+		assert.equal(
+			response.headers.etag,
+			hashEtag(Buffer.from(expected), "sha1", false)
+		)
+
+		// Other content types are sent as-is
+		const script = await fastify.inject("/app.js")
+		assert.equal(script.body, TEST_ASSETS["client/app.js"])
+	})
+
+	await t.test("caches the transformed output", async (t: TestContext) => {
+		const calls: string[] = []
+		const fastify = await createServer(t, {
+			transform: {
+				hook: async (text, pathName) => {
+					calls.push(pathName)
+					return text.replace("<!--app-config-->", "<meta name=env>")
+				},
+			},
+		})
+
+		const first = await fastify.inject("/index.html")
+		const second = await fastify.inject("/index.html")
+		assert.equal(first.body, second.body)
+		assert.match(first.body, /<meta name=env>/)
+		assert.deepEqual(calls, ["index.html"])
+
+		// Revalidation uses the ETag of the transformed output
+		const revalidated = await fastify.inject({
+			url: "/index.html",
+			headers: { "if-none-match": first.headers.etag as string },
+		})
+		assert.equal(revalidated.statusCode, 304)
+	})
+
+	await t.test(
+		"ignores precompressed variants and provided ETags",
+		async (t: TestContext) => {
+			const fastify = await createServer(t, {
+				preCompressed: true,
+				etagProvider: () => "build-1",
+				transform: { types: ["text/html", "application/javascript"] },
+			})
+
+			const response = await fastify.inject({
+				url: "/index.html",
+				headers: { "accept-encoding": "gzip" },
+			})
+			assert.equal(response.headers["content-encoding"], undefined)
+			assert.equal(response.body, TEST_ASSETS["client/index.html"])
+			assert.notEqual(response.headers.etag, '"build-1"')
+
+			const script = await fastify.inject("/app.js")
+			assert.notEqual(script.headers.etag, '"build-1"')
+		}
+	)
+})
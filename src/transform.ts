@@ -0,0 +1,69 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+/**
+ * Options for transforming text assets before they are sent
+ */
+export interface TransformOptions {
+	/** Content types to transform, ignoring parameters (default: ['text/html']) */
+	types?: string[]
+	/**
+	 * Placeholders to replace in every transformed asset, e.g.
+	 * { '<!--app-config-->': jsonScript(config, { id: 'app-config' }) }
+	 */
+	replacements?: Record<string, string>
+	/**
+	 * Transform the text after the replacements, given the asset path
+	 * relative to the root. The result is cached per asset.
+	 */
+	hook?: (text: string, pathName: string) => string | Promise<string>
+}
+
+/**
+ * Check if a content type is one of the types to transform
+ */
+export function isTransformable(
+	contentType: string | undefined,
+	types: readonly string[]
+): boolean {
+	const mimeType = contentType?.split(";")[0]?.trim().toLowerCase()
+	return mimeType !== undefined && types.includes(mimeType)
+}
+
+/**
+ * Apply the replacements and the hook to an asset's text
+ */
+export async function transformText(
+	text: string,
+	pathName: string,
+	options: TransformOptions
+): Promise<string> {
+	let result = text
+	for (const [placeholder, replacement] of Object.entries(
+		options.replacements ?? {}
+	)) {
+		result = result.split(placeholder).join(replacement)
+	}
+	return options.hook ? options.hook(result, pathName) : result
+}
+
+/**
+ * Serialize data as an inline JSON script tag, escaping characters that
+ * could close the tag or break out of the script
+ */
+export function jsonScript(
+	data: unknown,
+	attributes: Record<string, string> = {}
+): string {
+	const json = JSON.stringify(data)
+		.replace(/</g, "\\u003c")
+		.replace(/>/g, "\\u003e")
+		.replace(/&/g, "\\u0026")
+		.replace(/\u2028/g, "\\u2028")
+		.replace(/\u2029/g, "\\u2029")
+	const attrs = Object.entries({ type: "application/json", ...attributes })
+		.map(([name, value]) => ` ${name}="${value.replace(/"/g, "&quot;")}"`)
+		.join("")
+	return `<script${attrs}>${json}</script>`
+}
@@ -6,7 +6,7 @@
 import { defineConfig } from "tsup"
 
 export default defineConfig({
-	entry: ["src/index.ts"],
+	entry: ["src/index.ts", "src/cli.ts"],
 	sourcemap: true,
 	clean: true,
 	format: ["cjs", "esm"],